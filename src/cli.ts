@@ -0,0 +1,177 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { LineDiff } from './lineDiff';
+import { findProjectOptions, ProjectOptionsCache, readOptionsFile } from './optionsFile';
+import { DEFAULT_SORTING_OPTIONS } from './sorter/defaultOptions';
+import { JavaMethodSorter } from './sorter/javaMethodSorter';
+import { SortingOptions } from './sorter/types';
+
+const USAGE = `Usage: java-method-sorter [--check|--write] [--diff] [--config <file>] <paths...>
+
+Sorts the methods of Java files the same way as the Java Method Sorter extension.
+
+Options:
+  --check          Report files whose methods are not sorted (default)
+  --write          Sort the methods of the files in place
+  --diff           Print a unified diff of the changes
+  --config <file>  Read sorting options from this JSON file instead of the
+                   nearest .methodsorter.json of each file
+  --help           Show this help
+
+Paths may be files or directories, which are searched for .java files.
+Exit codes: 0 when every file is sorted (or was written), 1 when --check finds unsorted files,
+2 on usage or processing errors.`;
+
+/** Directories never searched for Java files */
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'out', 'target', 'build']);
+
+/**
+ * Parsed command line
+ */
+interface CliArguments {
+    mode: 'check' | 'write';
+    diff: boolean;
+    config?: string;
+    paths: string[];
+    help: boolean;
+}
+
+/**
+ * Parse the command line arguments; throws an error for invalid usage
+ */
+function parseArguments(args: string[]): CliArguments {
+    const result: CliArguments = { mode: 'check', diff: false, paths: [], help: false };
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        switch (arg) {
+            case '--check':
+            case '--write':
+                result.mode = arg === '--check' ? 'check' : 'write';
+                break;
+            case '--diff':
+                result.diff = true;
+                break;
+            case '--config':
+                if (i + 1 >= args.length) {
+                    throw new Error('--config requires a file');
+                }
+                result.config = args[++i];
+                break;
+            case '--help':
+            case '-h':
+                result.help = true;
+                break;
+            default:
+                if (arg.startsWith('-')) {
+                    throw new Error(`Unknown option ${arg}`);
+                }
+                result.paths.push(arg);
+        }
+    }
+    return result;
+}
+
+/**
+ * Find the Java files at the given paths, searching directories recursively.
+ * Hidden directories and common build output directories are skipped.
+ */
+function collectJavaFiles(paths: string[]): string[] {
+    const files: string[] = [];
+    const visit = (entry: string) => {
+        const stats = fs.statSync(entry);
+        if (stats.isFile()) {
+            files.push(entry);
+            return;
+        }
+        for (const child of fs.readdirSync(entry, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+            const childPath = path.join(entry, child.name);
+            if (child.isDirectory() && !child.name.startsWith('.') && !SKIPPED_DIRECTORIES.has(child.name)) {
+                visit(childPath);
+            } else if (child.isFile() && child.name.endsWith('.java')) {
+                files.push(childPath);
+            }
+        }
+    };
+    paths.forEach(visit);
+    return files;
+}
+
+/**
+ * Run the command line interface and return the exit code
+ */
+export function main(args: string[]): number {
+    let cli: CliArguments;
+    let files: string[];
+    let configOptions: Partial<SortingOptions> | undefined;
+    try {
+        cli = parseArguments(args);
+        if (cli.help) {
+            console.log(USAGE);
+            return 0;
+        }
+        if (cli.paths.length === 0) {
+            throw new Error('No paths given');
+        }
+        configOptions = cli.config ? readOptionsFile(cli.config) : undefined;
+        files = collectJavaFiles(cli.paths);
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        console.error(`\n${USAGE}`);
+        return 2;
+    }
+
+    let unsorted = 0;
+    let failed = 0;
+    const optionsCache: ProjectOptionsCache = new Map();
+    const reportedErrors = new Set<Error>();
+    for (const file of files) {
+        let options: SortingOptions;
+        try {
+            options = { ...DEFAULT_SORTING_OPTIONS, ...(configOptions ?? findProjectOptions(file, optionsCache)) };
+        } catch (error) {
+            // An invalid options file is reported once, not for every file it applies to
+            failed++;
+            const reason = error instanceof Error ? error : new Error(String(error));
+            if (!reportedErrors.has(reason)) {
+                reportedErrors.add(reason);
+                console.error(reason.message);
+            }
+            continue;
+        }
+
+        try {
+            const text = fs.readFileSync(file, 'utf8');
+            const sortedText = new JavaMethodSorter(options).sort(text);
+            if (sortedText === text) {
+                continue;
+            }
+
+            unsorted++;
+            if (cli.diff) {
+                const name = file.split(path.sep).join('/');
+                process.stdout.write(new LineDiff(text, sortedText).unifiedDiff(`a/${name}`, `b/${name}`));
+            }
+            if (cli.mode === 'write') {
+                fs.writeFileSync(file, sortedText, 'utf8');
+                console.log(`Sorted ${file}`);
+            } else if (!cli.diff) {
+                console.log(file);
+            }
+        } catch (error) {
+            failed++;
+            console.error(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    const verb = cli.mode === 'write' ? 'sorted' : 'not sorted';
+    console.error(`${files.length} file(s) checked, ${unsorted} ${verb}, ${failed} failed`);
+    if (failed > 0) {
+        return 2;
+    }
+    return cli.mode === 'check' && unsorted > 0 ? 1 : 0;
+}
+
+if (require.main === module) {
+    process.exitCode = main(process.argv.slice(2));
+}
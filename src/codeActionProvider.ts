@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { DIAGNOSTIC_SOURCE } from './sortDiagnostics';
+import { JavaMethodSorter } from './sorter/javaMethodSorter';
+import { SortingOptions } from './sorter/types';
+import { createTextEdits } from './textEdits';
+
+/**
+ * Code action kind of the Sort Methods source action, usable in editor.codeActionsOnSave
+ */
+export const SORT_METHODS_KIND = vscode.CodeActionKind.Source.append('sortMembers').append('methodSorter');
+
+/**
+ * A sort action whose edit is computed when it is resolved
+ */
+class SortMethodsCodeAction extends vscode.CodeAction {
+    constructor(title: string, kind: vscode.CodeActionKind, readonly document: vscode.TextDocument) {
+        super(title, kind);
+    }
+}
+
+/**
+ * Offers sorting the methods of a Java document as a source action,
+ * and as a quick fix for out-of-order method diagnostics
+ */
+export class SortMethodsCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [SORT_METHODS_KIND, vscode.CodeActionKind.QuickFix];
+
+    constructor(private readonly getOptions: (uri: vscode.Uri) => SortingOptions) {
+    }
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        // Source actions are never shown in the lightbulb, so only sort when one is asked for explicitly;
+        // the quick fix is only offered on diagnostics and sorts when it is resolved
+        const diagnostics = context.diagnostics.filter(diagnostic => diagnostic.source === DIAGNOSTIC_SOURCE);
+        const offerSource = context.only?.intersects(SORT_METHODS_KIND) ?? false;
+        const offerQuickFix = diagnostics.length > 0 && (!context.only || context.only.intersects(vscode.CodeActionKind.QuickFix));
+
+        const actions: vscode.CodeAction[] = [];
+        if (offerSource) {
+            const edit = this.createEdit(document);
+            if (edit) {
+                const action = new vscode.CodeAction('Sort Methods', SORT_METHODS_KIND);
+                action.edit = edit;
+                actions.push(action);
+            }
+        }
+        if (offerQuickFix) {
+            const fix = new SortMethodsCodeAction('Sort methods in file', vscode.CodeActionKind.QuickFix, document);
+            fix.diagnostics = diagnostics;
+            fix.isPreferred = true;
+            actions.push(fix);
+        }
+        return actions;
+    }
+
+    resolveCodeAction(action: vscode.CodeAction): vscode.CodeAction {
+        if (action instanceof SortMethodsCodeAction) {
+            action.edit = this.createEdit(action.document);
+        }
+        return action;
+    }
+
+    /**
+     * Create the edit that sorts a document, or undefined when it is sorted or cannot be parsed
+     */
+    private createEdit(document: vscode.TextDocument): vscode.WorkspaceEdit | undefined {
+        const text = document.getText();
+        let sortedText: string;
+        try {
+            sortedText = new JavaMethodSorter(this.getOptions(document.uri)).sort(text);
+        } catch {
+            return undefined;
+        }
+        if (sortedText === text) {
+            return undefined;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.set(document.uri, createTextEdits(text, sortedText));
+        return edit;
+    }
+}
@@ -0,0 +1,244 @@
+import { AccessLevel, MemberCategory, MemberPlacement, OrderRule, SortingOptions } from './sorter/types';
+
+/**
+ * Name of the Eclipse JDT UI preference file holding the members sort order
+ */
+export const JDT_UI_PREFS = 'org.eclipse.jdt.ui.prefs';
+
+/** Members sort order of Eclipse when outlinesortoption is not set */
+const JDT_DEFAULT_MEMBER_ORDER = 'T,SF,SI,SM,F,I,C,M';
+
+/** Visibility order of Eclipse when org.eclipse.jdt.ui.visibility.order is not set */
+const JDT_DEFAULT_VISIBILITY_ORDER = 'B,V,R,D';
+
+/** JDT preference keys of the members sort order and visibility order */
+const JDT_SORT_KEYS = ['outlinesortoption', 'org.eclipse.jdt.ui.enable.visibility.order', 'org.eclipse.jdt.ui.visibility.order'];
+
+/** JDT member categories that are methods: static methods, constructors, methods */
+const JDT_METHOD_CATEGORIES = ['SM', 'C', 'M'];
+
+/** JDT member categories that are not methods: types, static fields and initializers, fields, initializers */
+const JDT_MEMBER_CATEGORIES = ['T', 'SF', 'SI', 'F', 'I'];
+
+/** Member layout categories of the JDT member categories that are not methods */
+const JDT_LAYOUT_CATEGORIES: Record<string, MemberCategory> = {
+    'T': 'types',
+    'SF': 'staticFields',
+    'SI': 'staticInitializers',
+    'F': 'instanceFields',
+    'I': 'instanceInitializers'
+};
+
+/** JDT visibility codes, by access level */
+const JDT_VISIBILITIES: Record<string, AccessLevel> = {
+    'B': AccessLevel.PUBLIC,
+    'R': AccessLevel.PROTECTED,
+    'D': AccessLevel.PACKAGE,
+    'V': AccessLevel.PRIVATE
+};
+
+/** Order rule modifiers of each access level */
+const ACCESS_MODIFIERS = ['public', 'protected', 'package-private', 'private'];
+
+/** Options of the Eclipse method sorter plugin that map directly onto sorting options */
+const PLUGIN_OPTIONS: (keyof SortingOptions)[] = [
+    'sortingStrategy', 'applyWorkingListHeuristics', 'respectBeforeAfterRelation', 'clusterOverloadedMethods',
+    'clusterGetterSetter', 'separateByAccessLevel', 'separateConstructors', 'applyLexicalOrdering'
+];
+
+/**
+ * Sorting options imported from Eclipse preferences, with warnings about the preferences
+ * that could not be represented
+ */
+export interface EclipseImport {
+    options: Partial<SortingOptions>;
+    warnings: string[];
+}
+
+/**
+ * Maps Eclipse preference files onto sorting options:
+ * - the method sorter plugin's preferences (.settings/*methodsorter*.prefs), whose keys are matched
+ *   by option name regardless of case, separators and key prefix
+ * - the JDT members sort order and visibility order (.settings/org.eclipse.jdt.ui.prefs)
+ */
+export class EclipsePreferencesImporter {
+    private options: Partial<SortingOptions> = {};
+    private warnings: string[] = [];
+
+    /**
+     * Import preference files, given by file name and content.
+     * JDT preferences are applied first, so that the method sorter plugin's preferences win.
+     */
+    import(files: { name: string; content: string }[]): EclipseImport {
+        this.options = {};
+        this.warnings = [];
+
+        const ordered = [...files].sort((a, b) => Number(b.name === JDT_UI_PREFS) - Number(a.name === JDT_UI_PREFS));
+        for (const file of ordered) {
+            const preferences = this.parseProperties(file.content);
+            if (file.name === JDT_UI_PREFS) {
+                this.importJdtPreferences(preferences);
+            } else {
+                this.importPluginPreferences(file.name, preferences);
+            }
+        }
+        return { options: this.options, warnings: this.warnings };
+    }
+
+    /**
+     * Map the JDT members sort order and visibility order. The file usually holds other JDT UI
+     * settings too, so nothing is imported unless one of the sort order keys is set; the keys
+     * that are not set have Eclipse's defaults.
+     */
+    private importJdtPreferences(preferences: Map<string, string>): void {
+        if (!JDT_SORT_KEYS.some(key => preferences.has(key))) {
+            return;
+        }
+        const memberOrder = (preferences.get('outlinesortoption') ?? JDT_DEFAULT_MEMBER_ORDER).split(',').map(code => code.trim());
+        const visibilityEnabled = preferences.get('org.eclipse.jdt.ui.enable.visibility.order') === 'true';
+        const visibilityOrder = (preferences.get('org.eclipse.jdt.ui.visibility.order') ?? JDT_DEFAULT_VISIBILITY_ORDER)
+            .split(',').map(code => code.trim());
+
+        this.options.memberPlacement = this.importMemberPlacement(memberOrder);
+
+        const methodOrder = memberOrder.filter(code => JDT_METHOD_CATEGORIES.includes(code));
+        const accessOrder = visibilityOrder
+            .filter(code => code in JDT_VISIBILITIES)
+            .map(code => JDT_VISIBILITIES[code]);
+        const defaultAccessOrder = [AccessLevel.PUBLIC, AccessLevel.PROTECTED, AccessLevel.PACKAGE, AccessLevel.PRIVATE];
+
+        const sameMethodOrder = methodOrder.join(',') === 'C,SM,M';
+        const sameAccessOrder = !visibilityEnabled || accessOrder.join(',') === defaultAccessOrder.join(',');
+        this.options.separateByAccessLevel = visibilityEnabled;
+        this.options.separateConstructors = true;
+        if (!sameMethodOrder || !sameAccessOrder) {
+            // The fixed grouping cannot express this order, but order rules can
+            this.options.orderRules = this.createOrderRules(methodOrder, visibilityEnabled ? accessOrder : []);
+        }
+    }
+
+    /**
+     * Map the position of fields, types and initializers relative to the methods, and their
+     * order as a member layout when the methods are not split up
+     */
+    private importMemberPlacement(memberOrder: string[]): MemberPlacement {
+        const methodIndices = memberOrder.flatMap((code, index) => (JDT_METHOD_CATEGORIES.includes(code) ? [index] : []));
+        const memberIndices = memberOrder.flatMap((code, index) => (JDT_MEMBER_CATEGORIES.includes(code) ? [index] : []));
+        const firstMethod = Math.min(...methodIndices);
+        const lastMethod = Math.max(...methodIndices);
+
+        if (memberIndices.every(index => index < firstMethod || index > lastMethod)) {
+            this.options.memberLayout = memberOrder
+                .filter((code, index) => code in JDT_LAYOUT_CATEGORIES || index === firstMethod)
+                .map(code => JDT_LAYOUT_CATEGORIES[code] ?? 'methods');
+        }
+
+        if (memberIndices.every(index => index < firstMethod)) {
+            return 'beforeMethods';
+        }
+        if (memberIndices.every(index => index > lastMethod)) {
+            return 'afterMethods';
+        }
+        if (!this.options.memberLayout) {
+            this.warnings.push(
+                `Members sort order ${memberOrder.join(',')} mixes fields, types or initializers with methods; they keep their original position instead`
+            );
+        }
+        return 'anchored';
+    }
+
+    /**
+     * Create order rules for the JDT method categories, each split by visibility when enabled
+     */
+    private createOrderRules(methodOrder: string[], accessOrder: AccessLevel[]): OrderRule[] {
+        const categories: Record<string, OrderRule> = {
+            'C': { kind: 'constructor' },
+            'SM': { kind: 'method', modifiers: ['static'] },
+            'M': { kind: 'method', modifiers: ['!static'] }
+        };
+        return methodOrder.flatMap(code => {
+            const category = categories[code];
+            if (accessOrder.length === 0) {
+                return [category];
+            }
+            return accessOrder.map(level => ({
+                ...category,
+                modifiers: [...(category.modifiers ?? []), ACCESS_MODIFIERS[level]]
+            }));
+        });
+    }
+
+    /**
+     * Map the preferences of the Eclipse method sorter plugin
+     */
+    private importPluginPreferences(fileName: string, preferences: Map<string, string>): void {
+        const byName = new Map(PLUGIN_OPTIONS.map(option => [this.normalizeKey(option), option]));
+        for (const [key, value] of preferences) {
+            if (key === 'eclipse.preferences.version') {
+                continue;
+            }
+            const option = byName.get(this.normalizeKey(key.substring(key.lastIndexOf('.') + 1)));
+            if (!option) {
+                this.warnings.push(`Preference ${key} in ${fileName} has no equivalent and was ignored`);
+                continue;
+            }
+
+            if (option === 'sortingStrategy') {
+                const strategy = /breadth/i.test(value) ? 'breadth-first' : /depth/i.test(value) ? 'depth-first' : null;
+                if (strategy) {
+                    this.options.sortingStrategy = strategy;
+                } else {
+                    this.warnings.push(`Sorting strategy ${value} in ${fileName} is not supported and was ignored`);
+                }
+            } else if (value === 'true' || value === 'false') {
+                (this.options as Record<string, unknown>)[option] = value === 'true';
+            } else {
+                this.warnings.push(`Preference ${key} in ${fileName} has an invalid value ${value} and was ignored`);
+            }
+        }
+    }
+
+    /**
+     * Normalize a preference key or option name for matching, e.g. 'SORTING_STRATEGY' and
+     * 'sortingStrategy' both become 'sortingstrategy'
+     */
+    private normalizeKey(key: string): string {
+        return key.replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+    }
+
+    /**
+     * Parse a Java properties file, as used for Eclipse preferences
+     */
+    private parseProperties(content: string): Map<string, string> {
+        const properties = new Map<string, string>();
+        // Join continuation lines (ending with an odd number of backslashes)
+        const lines = content.replace(/(?<!\\)((?:\\\\)*)\\\r?\n[ \t]*/g, '$1').split(/\r?\n/);
+        for (const rawLine of lines) {
+            const line = rawLine.trim();
+            if (line === '' || line.startsWith('#') || line.startsWith('!')) {
+                continue;
+            }
+            const match = /^((?:\\.|[^=:\s\\])+)\s*[=:\s]\s*(.*)$/.exec(line);
+            const key = this.unescape(match ? match[1] : line);
+            properties.set(key, match ? this.unescape(match[2]) : '');
+        }
+        return properties;
+    }
+
+    private unescape(text: string): string {
+        return text.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, escaped: string) => {
+            if (escaped.length === 5) {
+                return String.fromCharCode(parseInt(escaped.substring(1), 16));
+            }
+            return { 't': '\t', 'n': '\n', 'r': '\r', 'f': '\f' }[escaped] ?? escaped;
+        });
+    }
+}
+
+/**
+ * Check whether a file in an Eclipse project's .settings folder holds preferences that
+ * can be imported: the JDT UI preferences or the method sorter plugin's preferences
+ */
+export function isImportablePreferenceFile(name: string): boolean {
+    return name === JDT_UI_PREFS || (name.endsWith('.prefs') && /method[._-]?sorter/i.test(name));
+}
@@ -1,24 +1,56 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
+import { Worker } from 'worker_threads';
+import { SortMethodsCodeActionProvider } from './codeActionProvider';
+import { EclipsePreferencesImporter, isImportablePreferenceFile } from './eclipsePreferences';
+import { GitIgnore } from './gitIgnore';
+import { findProjectOptions, OPTIONS_FILE_NAME, readOptionsFile } from './optionsFile';
+import { SortDiagnostics } from './sortDiagnostics';
+import { PREVIEW_SCHEME, SortPreviewProvider } from './sortPreview';
+import { createTextEdits, followBlocks } from './textEdits';
+import type { SortRequest } from './sortWorker';
+import { DEFAULT_SORTING_OPTIONS } from './sorter/defaultOptions';
 import { JavaMethodSorter } from './sorter/javaMethodSorter';
-import { SortingOptions } from './sorter/types';
+import { MemberCategory, MemberPlacement, OrderRule, SectionName, SortingOptions } from './sorter/types';
+
+/**
+ * When to sort Java files on save:
+ * - 'off': never
+ * - 'on': always
+ * - 'onlyIfAlreadySorted': only files whose last saved version is sorted, to keep them sorted
+ */
+type SortOnSave = 'off' | 'on' | 'onlyIfAlreadySorted';
 
 // Extension ID for Red Hat Java Language Support
 const REDHAT_JAVA_EXTENSION_ID = 'redhat.java';
 
+// Sorted previews shown by the Preview Method Sort command
+const sortPreviews = new SortPreviewProvider();
+
 /**
- * Get sorting options from VS Code configuration
+ * Get sorting options for a document: the project options file (see findProjectOptions)
+ * merged over the VS Code configuration, so that everyone working on a project sorts alike
  */
-function getSortingOptions(): SortingOptions {
-    const config = vscode.workspace.getConfiguration('tlcsdm.methodsorter');
+function getSortingOptions(uri?: vscode.Uri): SortingOptions {
+    const config = vscode.workspace.getConfiguration('tlcsdm.methodsorter', uri);
+    const defaults = DEFAULT_SORTING_OPTIONS;
     return {
-        sortingStrategy: config.get<string>('sortingStrategy', 'depth-first'),
-        applyWorkingListHeuristics: config.get<boolean>('applyWorkingListHeuristics', true),
-        respectBeforeAfterRelation: config.get<boolean>('respectBeforeAfterRelation', true),
-        clusterOverloadedMethods: config.get<boolean>('clusterOverloadedMethods', false),
-        clusterGetterSetter: config.get<boolean>('clusterGetterSetter', false),
-        separateByAccessLevel: config.get<boolean>('separateByAccessLevel', true),
-        separateConstructors: config.get<boolean>('separateConstructors', true),
-        applyLexicalOrdering: config.get<boolean>('applyLexicalOrdering', true)
+        sortingStrategy: config.get<string>('sortingStrategy', defaults.sortingStrategy),
+        applyWorkingListHeuristics: config.get<boolean>('applyWorkingListHeuristics', defaults.applyWorkingListHeuristics),
+        respectBeforeAfterRelation: config.get<boolean>('respectBeforeAfterRelation', defaults.respectBeforeAfterRelation),
+        clusterOverloadedMethods: config.get<boolean>('clusterOverloadedMethods', defaults.clusterOverloadedMethods),
+        clusterGetterSetter: config.get<boolean>('clusterGetterSetter', defaults.clusterGetterSetter),
+        separateByAccessLevel: config.get<boolean>('separateByAccessLevel', defaults.separateByAccessLevel),
+        separateConstructors: config.get<boolean>('separateConstructors', defaults.separateConstructors),
+        applyLexicalOrdering: config.get<boolean>('applyLexicalOrdering', defaults.applyLexicalOrdering),
+        memberPlacement: config.get<MemberPlacement>('memberPlacement', defaults.memberPlacement),
+        memberLayout: config.get<MemberCategory[]>('memberLayout', defaults.memberLayout),
+        maxNestingDepth: config.get<number>('maxNestingDepth', defaults.maxNestingDepth),
+        blankLinesBetweenMethods: config.get<number>('blankLinesBetweenMethods', defaults.blankLinesBetweenMethods),
+        orderRules: config.get<OrderRule[]>('orderRules', defaults.orderRules),
+        sectionHeaders: config.get<Partial<Record<SectionName, string>>>('sectionHeaders', defaults.sectionHeaders),
+        sortFields: config.get<boolean>('sortFields', defaults.sortFields),
+        ...(uri?.scheme === 'file' ? findProjectOptions(uri.fsPath) : {})
     };
 }
 
@@ -65,22 +97,25 @@ async function sortMethods(): Promise<void> {
     const text = document.getText();
 
     try {
-        const options = getSortingOptions();
+        const options = getSortingOptions(document.uri);
         const sorter = new JavaMethodSorter(options);
-        const sortedText = sorter.sort(text);
+        const { text: sortedText, blocks } = sorter.sortWithBlocks(text);
 
         if (sortedText === text) {
             vscode.window.showInformationMessage('Methods are already sorted');
             return;
         }
 
+        // Only the changed lines are replaced; the cursor follows the method it was in
+        const cursors = editor.selections.map(selection => followBlocks(document.offsetAt(selection.active), blocks));
         const edit = new vscode.WorkspaceEdit();
-        const fullRange = new vscode.Range(
-            document.positionAt(0),
-            document.positionAt(text.length)
-        );
-        edit.replace(document.uri, fullRange, sortedText);
+        edit.set(document.uri, createTextEdits(text, sortedText));
         await vscode.workspace.applyEdit(edit);
+        editor.selections = editor.selections.map((selection, index) => {
+            const cursor = cursors[index];
+            return cursor === null ? selection : new vscode.Selection(document.positionAt(cursor), document.positionAt(cursor));
+        });
+        editor.revealRange(editor.selection, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
 
         // Format document with Red Hat Java extension if available
         await formatDocumentWithRedHatJava();
@@ -92,6 +127,393 @@ async function sortMethods(): Promise<void> {
     }
 }
 
+/**
+ * Sort only the methods inside the selections of the active Java editor
+ */
+async function sortSelectedMethods(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showWarningMessage('No active text editor');
+        return;
+    }
+
+    if (editor.document.languageId !== 'java') {
+        vscode.window.showWarningMessage('This command only works with Java files');
+        return;
+    }
+
+    const document = editor.document;
+    const text = document.getText();
+    const selections = editor.selections
+        .filter(selection => !selection.isEmpty)
+        .map(selection => ({ start: document.offsetAt(selection.start), end: document.offsetAt(selection.end) }));
+
+    if (selections.length === 0) {
+        vscode.window.showWarningMessage('Select the methods to sort first');
+        return;
+    }
+
+    try {
+        const sorter = new JavaMethodSorter(getSortingOptions(document.uri));
+        const sortedText = sorter.sortSelections(text, selections);
+
+        if (sortedText === text) {
+            vscode.window.showInformationMessage('Selected methods are already sorted');
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.set(document.uri, createTextEdits(text, sortedText));
+        await vscode.workspace.applyEdit(edit);
+
+        // The document is not formatted, so that the code outside the selections stays untouched
+        vscode.window.showInformationMessage('Selected methods sorted successfully');
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to sort selected methods';
+        vscode.window.showErrorMessage(message);
+    }
+}
+
+/**
+ * Read the .gitignore files of a workspace folder
+ */
+async function loadGitIgnore(folder: vscode.WorkspaceFolder): Promise<GitIgnore> {
+    const gitIgnore = new GitIgnore();
+    const files = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, '**/.gitignore'));
+    // Parent directories first, so that nested .gitignore files take precedence
+    const paths = files
+        .map(file => ({ file, path: vscode.workspace.asRelativePath(file, false) }))
+        .sort((a, b) => a.path.split('/').length - b.path.split('/').length || a.path.localeCompare(b.path));
+    for (const { file, path } of paths) {
+        const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(file));
+        gitIgnore.add(path.substring(0, path.lastIndexOf('/') + 1), content);
+    }
+    return gitIgnore;
+}
+
+/**
+ * Find the Java files to sort under the given folders, honoring the include and exclude
+ * settings and the .gitignore files of the workspace
+ */
+async function findJavaFiles(folders: vscode.Uri[], token: vscode.CancellationToken): Promise<vscode.Uri[]> {
+    const config = vscode.workspace.getConfiguration('tlcsdm.methodsorter');
+    const include = config.get<string>('includeFiles', '**/*.java');
+    const exclude = config.get<string>('excludeFiles', '');
+    const respectGitIgnore = config.get<boolean>('respectGitIgnore', true);
+
+    const gitIgnores = new Map<string, GitIgnore>();
+    const found = new Map<string, vscode.Uri>();
+    for (const folder of folders) {
+        const files = await vscode.workspace.findFiles(
+            new vscode.RelativePattern(folder, include), exclude || undefined, undefined, token
+        );
+        for (const file of files) {
+            const workspaceFolder = vscode.workspace.getWorkspaceFolder(file);
+            if (respectGitIgnore && workspaceFolder) {
+                const key = workspaceFolder.uri.toString();
+                if (!gitIgnores.has(key)) {
+                    gitIgnores.set(key, await loadGitIgnore(workspaceFolder));
+                }
+                if (gitIgnores.get(key)!.ignores(vscode.workspace.asRelativePath(file, false))) {
+                    continue;
+                }
+            }
+            found.set(file.toString(), file);
+        }
+    }
+    return Array.from(found.values()).sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Sort methods in every Java file under the selected folders, or the whole workspace.
+ * All changes are applied as one workspace edit, so they can be undone together.
+ */
+async function sortMethodsInFolder(uri?: vscode.Uri, uris?: vscode.Uri[]): Promise<void> {
+    const folders = uris && uris.length > 0
+        ? uris
+        : uri ? [uri] : (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri);
+    if (folders.length === 0) {
+        vscode.window.showWarningMessage('No folder is open');
+        return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    let changed = 0;
+    let unchanged = 0;
+    const failed: string[] = [];
+
+    const completed = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Sorting methods', cancellable: true },
+        async (progress, token) => {
+            const files = await findJavaFiles(folders, token);
+            for (const file of files) {
+                if (token.isCancellationRequested) {
+                    return false;
+                }
+                progress.report({ increment: 100 / files.length, message: vscode.workspace.asRelativePath(file) });
+
+                try {
+                    // Prefer the open document, which may have unsaved changes
+                    const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === file.toString());
+                    const text = document
+                        ? document.getText()
+                        : new TextDecoder().decode(await vscode.workspace.fs.readFile(file));
+                    const sortedText = new JavaMethodSorter(getSortingOptions(file)).sort(text);
+                    if (sortedText === text) {
+                        unchanged++;
+                    } else {
+                        edit.set(file, createTextEdits(text, sortedText));
+                        changed++;
+                    }
+                } catch {
+                    failed.push(vscode.workspace.asRelativePath(file));
+                }
+            }
+            return !token.isCancellationRequested;
+        }
+    );
+
+    if (!completed) {
+        vscode.window.showInformationMessage('Sorting cancelled, no files were changed');
+        return;
+    }
+
+    if (changed > 0 && !(await vscode.workspace.applyEdit(edit))) {
+        vscode.window.showErrorMessage('Failed to apply the sorted methods');
+        return;
+    }
+
+    const summary = `Sorted methods: ${changed} file(s) changed, ${unchanged} unchanged, ${failed.length} failed`;
+    if (failed.length > 0) {
+        vscode.window.showWarningMessage(`${summary} (${failed.join(', ')})`);
+    } else {
+        vscode.window.showInformationMessage(summary);
+    }
+}
+
+/**
+ * Sort a Java source in a worker thread, giving up when the time budget runs out.
+ * Resolves to null when the budget is exceeded, the baseline is not sorted or sorting fails.
+ */
+function sortInWorker(request: SortRequest, timeout: number): Promise<string | null> {
+    return new Promise(resolve => {
+        const worker = new Worker(path.join(__dirname, 'sortWorker.js'), { workerData: request });
+        const finish = (result: string | null) => {
+            clearTimeout(timer);
+            void worker.terminate();
+            resolve(result);
+        };
+        const timer = setTimeout(() => finish(null), timeout);
+        worker.once('message', (result: string | null) => finish(result));
+        worker.once('error', () => finish(null));
+    });
+}
+
+/**
+ * Compute the edits that sort a Java document before it is saved, according to the sortOnSave setting
+ */
+async function sortBeforeSave(document: vscode.TextDocument): Promise<vscode.TextEdit[]> {
+    const config = vscode.workspace.getConfiguration('tlcsdm.methodsorter', document.uri);
+    const mode = config.get<SortOnSave>('sortOnSave', 'off');
+    const exclude = config.get<string>('sortOnSaveExclude', '');
+    if (mode === 'off' || document.languageId !== 'java') {
+        return [];
+    }
+    // Relative to the workspace folder like excludeFiles, or to the file's folder outside a workspace
+    const base = vscode.workspace.getWorkspaceFolder(document.uri) ?? vscode.Uri.joinPath(document.uri, '..');
+    if (exclude && vscode.languages.match({ pattern: new vscode.RelativePattern(base, exclude) }, document) > 0) {
+        return [];
+    }
+
+    let baseline: string | undefined;
+    if (mode === 'onlyIfAlreadySorted') {
+        if (document.isUntitled) {
+            return [];
+        }
+        try {
+            baseline = new TextDecoder().decode(await vscode.workspace.fs.readFile(document.uri));
+        } catch {
+            // A file that was never saved has no sorted state to keep
+            return [];
+        }
+    }
+
+    const text = document.getText();
+    const sortedText = await sortInWorker(
+        { text, options: getSortingOptions(document.uri), baseline },
+        config.get<number>('sortOnSaveTimeout', 1000)
+    );
+    if (sortedText === null || sortedText === text || document.getText() !== text) {
+        return [];
+    }
+
+    return createTextEdits(text, sortedText);
+}
+
+/**
+ * Show the sorted result of the active Java editor in a diff editor, to be applied or discarded
+ */
+async function previewSort(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showWarningMessage('No active text editor');
+        return;
+    }
+
+    if (editor.document.languageId !== 'java') {
+        vscode.window.showWarningMessage('This command only works with Java files');
+        return;
+    }
+
+    const document = editor.document;
+    const text = document.getText();
+
+    try {
+        const sortedText = new JavaMethodSorter(getSortingOptions(document.uri)).sort(text);
+
+        if (sortedText === text) {
+            vscode.window.showInformationMessage('Methods are already sorted');
+            return;
+        }
+
+        const previewUri = sortPreviews.add(document, sortedText);
+        const title = `${path.basename(document.uri.path)} ↔ Sorted Methods`;
+        await vscode.commands.executeCommand('vscode.diff', document.uri, previewUri, title);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to preview sorted methods';
+        vscode.window.showErrorMessage(message);
+    }
+}
+
+/**
+ * Get the preview URI a preview command was run for: the editor title resource, or the active editor
+ */
+function previewUriOf(uri?: vscode.Uri): vscode.Uri | undefined {
+    const candidate = uri ?? vscode.window.activeTextEditor?.document.uri;
+    return candidate?.scheme === PREVIEW_SCHEME ? candidate : undefined;
+}
+
+/**
+ * Close the diff editors showing a preview and forget the preview
+ */
+async function closePreview(previewUri: vscode.Uri): Promise<void> {
+    const tabs = vscode.window.tabGroups.all
+        .flatMap(group => group.tabs)
+        .filter(tab => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === previewUri.toString());
+    await vscode.window.tabGroups.close(tabs);
+    sortPreviews.remove(previewUri);
+}
+
+/**
+ * Apply a previewed sort to its document
+ */
+async function applyPreview(uri?: vscode.Uri): Promise<void> {
+    const previewUri = previewUriOf(uri);
+    const preview = previewUri && sortPreviews.get(previewUri);
+    if (!previewUri || !preview) {
+        vscode.window.showWarningMessage('No method sort preview is open');
+        return;
+    }
+
+    try {
+        const document = await vscode.workspace.openTextDocument(preview.document);
+        if (document.version !== preview.version) {
+            vscode.window.showWarningMessage('The file has changed since the preview was created; preview the sort again');
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.set(document.uri, createTextEdits(document.getText(), preview.text));
+        await vscode.workspace.applyEdit(edit);
+
+        await closePreview(previewUri);
+        await vscode.window.showTextDocument(document);
+        vscode.window.showInformationMessage('Methods sorted successfully');
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to apply sorted methods';
+        vscode.window.showErrorMessage(message);
+    }
+}
+
+/**
+ * Close a previewed sort without changing its document
+ */
+async function discardPreview(uri?: vscode.Uri): Promise<void> {
+    const previewUri = previewUriOf(uri);
+    if (previewUri) {
+        await closePreview(previewUri);
+    }
+}
+
+/**
+ * Import the Eclipse method sorter and JDT members sort order preferences of a workspace folder
+ * (.settings/*.prefs) into its .methodsorter.json, so that both IDEs produce the same order.
+ * Options already in the file are kept unless the preferences set them.
+ */
+async function importEclipsePreferences(): Promise<void> {
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const folder = (activeUri && vscode.workspace.getWorkspaceFolder(activeUri))
+        ?? (folders.length === 1 ? folders[0] : await vscode.window.showWorkspaceFolderPick());
+    if (!folder) {
+        if (folders.length === 0) {
+            vscode.window.showWarningMessage('No folder is open');
+        }
+        return;
+    }
+
+    try {
+        const settingsFolder = vscode.Uri.joinPath(folder.uri, '.settings');
+        let entries: [string, vscode.FileType][] = [];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(settingsFolder);
+        } catch {
+            // No .settings folder
+        }
+        const files = [];
+        for (const [name, type] of entries) {
+            if (type === vscode.FileType.File && isImportablePreferenceFile(name)) {
+                const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(settingsFolder, name)));
+                files.push({ name, content });
+            }
+        }
+        if (files.length === 0) {
+            vscode.window.showWarningMessage(`No Eclipse method sorter or JDT preferences found in ${folder.name}/.settings`);
+            return;
+        }
+
+        const { options, warnings } = new EclipsePreferencesImporter().import(files);
+        if (Object.keys(options).length === 0 && warnings.length === 0) {
+            vscode.window.showWarningMessage(`The Eclipse preferences in ${folder.name}/.settings hold no sort order settings`);
+            return;
+        }
+        const optionsUri = vscode.Uri.joinPath(folder.uri, OPTIONS_FILE_NAME);
+        const existing = folder.uri.scheme === 'file' && await exists(optionsUri) ? readOptionsFile(optionsUri.fsPath) : {};
+        const content = JSON.stringify({ ...existing, ...options }, null, 2) + '\n';
+        await vscode.workspace.fs.writeFile(optionsUri, new TextEncoder().encode(content));
+        await vscode.window.showTextDocument(optionsUri);
+
+        const summary = `Imported ${files.map(file => file.name).join(', ')} into ${OPTIONS_FILE_NAME}`;
+        if (warnings.length > 0) {
+            vscode.window.showWarningMessage(`${summary} with ${warnings.length} warning(s)`, { modal: true, detail: warnings.join('\n') });
+        } else {
+            vscode.window.showInformationMessage(summary);
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to import Eclipse preferences';
+        vscode.window.showErrorMessage(message);
+    }
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
 /**
  * Shuffle methods randomly in the active Java editor
  */
@@ -111,7 +533,7 @@ async function shuffleMethodsRandomly(): Promise<void> {
     const text = document.getText();
 
     try {
-        const sorter = new JavaMethodSorter(getSortingOptions());
+        const sorter = new JavaMethodSorter(getSortingOptions(document.uri));
         const shuffledText = sorter.shuffleRandomly(text);
 
         if (shuffledText === text) {
@@ -120,11 +542,7 @@ async function shuffleMethodsRandomly(): Promise<void> {
         }
 
         const edit = new vscode.WorkspaceEdit();
-        const fullRange = new vscode.Range(
-            document.positionAt(0),
-            document.positionAt(text.length)
-        );
-        edit.replace(document.uri, fullRange, shuffledText);
+        edit.set(document.uri, createTextEdits(text, shuffledText));
         await vscode.workspace.applyEdit(edit);
 
         // Format document with Red Hat Java extension if available
@@ -147,12 +565,68 @@ export function activate(context: vscode.ExtensionContext): void {
         sortMethods
     );
 
+    const sortSelectedMethodsCmd = vscode.commands.registerCommand(
+        'tlcsdm.methodsorter.sortSelectedMethods',
+        sortSelectedMethods
+    );
+
+    const sortMethodsInFolderCmd = vscode.commands.registerCommand(
+        'tlcsdm.methodsorter.sortMethodsInFolder',
+        sortMethodsInFolder
+    );
+
     const shuffleMethodsCmd = vscode.commands.registerCommand(
         'tlcsdm.methodsorter.shuffleMethodsRandomly',
         shuffleMethodsRandomly
     );
 
-    context.subscriptions.push(sortMethodsCmd, shuffleMethodsCmd);
+    const previewSortCmd = vscode.commands.registerCommand(
+        'tlcsdm.methodsorter.previewSort',
+        previewSort
+    );
+
+    const applyPreviewCmd = vscode.commands.registerCommand(
+        'tlcsdm.methodsorter.applyPreview',
+        applyPreview
+    );
+
+    const discardPreviewCmd = vscode.commands.registerCommand(
+        'tlcsdm.methodsorter.discardPreview',
+        discardPreview
+    );
+
+    const importEclipsePreferencesCmd = vscode.commands.registerCommand(
+        'tlcsdm.methodsorter.importEclipsePreferences',
+        importEclipsePreferences
+    );
+
+    context.subscriptions.push(
+        sortMethodsCmd, sortSelectedMethodsCmd, sortMethodsInFolderCmd, shuffleMethodsCmd,
+        previewSortCmd, applyPreviewCmd, discardPreviewCmd, importEclipsePreferencesCmd
+    );
+
+    // Content of the sorted previews
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, sortPreviews),
+        sortPreviews
+    );
+
+    // Sort Methods source action
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider(
+            { language: 'java' },
+            new SortMethodsCodeActionProvider(getSortingOptions),
+            { providedCodeActionKinds: SortMethodsCodeActionProvider.providedCodeActionKinds }
+        )
+    );
+
+    // Out-of-order method diagnostics
+    context.subscriptions.push(new SortDiagnostics(getSortingOptions));
+
+    // Sort on save
+    context.subscriptions.push(
+        vscode.workspace.onWillSaveTextDocument(event => event.waitUntil(sortBeforeSave(event.document)))
+    );
 }
 
 /**
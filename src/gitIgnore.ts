@@ -0,0 +1,145 @@
+/**
+ * A single pattern of a .gitignore file
+ */
+interface IgnoreRule {
+    /** Directory of the .gitignore file, relative to the root ('' for the root itself) */
+    base: string;
+    /** Compiled pattern */
+    regex: RegExp;
+    /** Pattern contains a slash, so it is matched against the path relative to the base */
+    anchored: boolean;
+    /** Pattern ends with a slash, so it only matches directories */
+    directoryOnly: boolean;
+    /** Pattern starts with '!', so it re-includes what earlier patterns excluded */
+    negated: boolean;
+}
+
+/**
+ * Matches paths against the .gitignore files of a directory tree.
+ *
+ * Supports comments, negation, directory-only and anchored patterns, '*', '?', '**' and
+ * character classes. As in git, a file inside an ignored directory cannot be re-included.
+ * Paths are relative to the root of the tree and use forward slashes.
+ */
+export class GitIgnore {
+    private rules: IgnoreRule[] = [];
+
+    /**
+     * Add the patterns of a .gitignore file located in the given directory.
+     * Files must be added from the root downwards, so that deeper files take precedence.
+     */
+    add(base: string, content: string): void {
+        const normalizedBase = base.replace(/^\/+|\/+$/g, '');
+        for (const rawLine of content.split(/\r?\n/)) {
+            const rule = this.parseRule(normalizedBase, rawLine);
+            if (rule) {
+                this.rules.push(rule);
+            }
+        }
+    }
+
+    /**
+     * Check whether a file is ignored, either by itself or through one of its directories
+     */
+    ignores(path: string): boolean {
+        const segments = path.split('/').filter(segment => segment.length > 0);
+        for (let i = 1; i < segments.length; i++) {
+            if (this.isIgnored(segments.slice(0, i).join('/'), true)) {
+                return true;
+            }
+        }
+        return this.isIgnored(segments.join('/'), false);
+    }
+
+    /**
+     * Check whether a path is ignored by its own name; the last matching rule decides
+     */
+    private isIgnored(path: string, isDirectory: boolean): boolean {
+        let ignored = false;
+        for (const rule of this.rules) {
+            if (rule.directoryOnly && !isDirectory) {
+                continue;
+            }
+            if (rule.base && !path.startsWith(rule.base + '/')) {
+                continue;
+            }
+            const relative = rule.base ? path.substring(rule.base.length + 1) : path;
+            const subject = rule.anchored ? relative : relative.substring(relative.lastIndexOf('/') + 1);
+            if (rule.regex.test(subject)) {
+                ignored = !rule.negated;
+            }
+        }
+        return ignored;
+    }
+
+    /**
+     * Parse one line of a .gitignore file; blank lines and comments yield no rule
+     */
+    private parseRule(base: string, rawLine: string): IgnoreRule | null {
+        // Trailing spaces are ignored unless escaped
+        let pattern = rawLine.replace(/(?<!\\)\s+$/, '');
+        if (pattern === '' || pattern.startsWith('#')) {
+            return null;
+        }
+
+        const negated = pattern.startsWith('!');
+        if (negated) {
+            pattern = pattern.substring(1);
+        } else if (pattern.startsWith('\\#') || pattern.startsWith('\\!')) {
+            pattern = pattern.substring(1);
+        }
+
+        const directoryOnly = pattern.endsWith('/');
+        pattern = pattern.replace(/\/+$/, '');
+        const anchored = pattern.includes('/');
+        pattern = pattern.replace(/^\//, '');
+        if (pattern === '') {
+            return null;
+        }
+
+        return { base, regex: this.toRegExp(pattern), anchored, directoryOnly, negated };
+    }
+
+    /**
+     * Translate a glob pattern into a regular expression matching the whole path
+     */
+    private toRegExp(pattern: string): RegExp {
+        let regex = '';
+        let i = 0;
+        while (i < pattern.length) {
+            const char = pattern[i];
+            if (pattern.startsWith('**/', i)) {
+                regex += '(?:.*/)?';
+                i += 3;
+            } else if (pattern.startsWith('/**', i) && i + 3 === pattern.length) {
+                regex += '/.*';
+                i += 3;
+            } else if (pattern.startsWith('**', i)) {
+                regex += '.*';
+                i += 2;
+            } else if (char === '*') {
+                regex += '[^/]*';
+                i++;
+            } else if (char === '?') {
+                regex += '[^/]';
+                i++;
+            } else if (char === '[' && pattern.indexOf(']', i + 2) > 0) {
+                const close = pattern.indexOf(']', i + 2);
+                const body = pattern.substring(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+                regex += `[${body}]`;
+                i = close + 1;
+            } else if (char === '\\' && i + 1 < pattern.length) {
+                regex += this.escape(pattern[i + 1]);
+                i += 2;
+            } else {
+                regex += this.escape(char);
+                i++;
+            }
+        }
+        return new RegExp(`^${regex}$`);
+    }
+
+    private escape(char: string): string {
+        return char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+}
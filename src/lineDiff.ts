@@ -0,0 +1,226 @@
+/**
+ * Replacement of a range of the old text with new text
+ */
+export interface TextReplacement {
+    /** Start offset in the old text (inclusive) */
+    start: number;
+    /** End offset in the old text (exclusive) */
+    end: number;
+    /** Replacement text */
+    text: string;
+}
+
+/**
+ * A run of changed lines: lines [oldStart, oldEnd) of the old text are replaced
+ * by lines [newStart, newEnd) of the new text
+ */
+interface LineHunk {
+    oldStart: number;
+    oldEnd: number;
+    newStart: number;
+    newEnd: number;
+}
+
+/**
+ * Computes the minimal replacements turning one text into another.
+ *
+ * Lines are compared with Myers' diff algorithm; each run of changed lines becomes one
+ * replacement, trimmed to the characters that actually differ. Unchanged lines are never
+ * part of a replacement, so editors keep their state (cursor, folding, breakpoints) there.
+ */
+export class LineDiff {
+    private oldText: string;
+    private newText: string;
+
+    constructor(oldText: string, newText: string) {
+        this.oldText = oldText;
+        this.newText = newText;
+    }
+
+    /**
+     * Get the replacements, in document order and without overlaps
+     */
+    replacements(): TextReplacement[] {
+        const oldOffsets = this.lineOffsets(this.splitLines(this.oldText));
+        const newOffsets = this.lineOffsets(this.splitLines(this.newText));
+        return this.hunks().map(hunk => this.trim(
+            oldOffsets[hunk.oldStart],
+            oldOffsets[hunk.oldEnd],
+            this.newText.substring(newOffsets[hunk.newStart], newOffsets[hunk.newEnd])
+        ));
+    }
+
+    /**
+     * Format the differences as a unified diff with the given number of context lines.
+     * Returns an empty string when the texts are equal.
+     */
+    unifiedDiff(oldName: string, newName: string, context: number = 3): string {
+        const hunks = this.hunks();
+        if (hunks.length === 0) {
+            return '';
+        }
+
+        const oldLines = this.splitLines(this.oldText);
+        const newLines = this.splitLines(this.newText);
+        const formatLine = (prefix: string, line: string) => {
+            const content = line.replace(/(\r\n|\r|\n)$/, '');
+            return `${prefix}${content}\n` + (content === line ? '\\ No newline at end of file\n' : '');
+        };
+
+        let result = `--- ${oldName}\n+++ ${newName}\n`;
+        let index = 0;
+        while (index < hunks.length) {
+            // Merge hunks whose context would overlap
+            let last = index;
+            while (last + 1 < hunks.length && hunks[last + 1].oldStart - hunks[last].oldEnd <= 2 * context) {
+                last++;
+            }
+            const oldStart = Math.max(0, hunks[index].oldStart - context);
+            const oldEnd = Math.min(oldLines.length, hunks[last].oldEnd + context);
+            const newStart = hunks[index].newStart - (hunks[index].oldStart - oldStart);
+            const newEnd = hunks[last].newEnd + (oldEnd - hunks[last].oldEnd);
+
+            const range = (start: number, end: number) => `${end - start === 0 ? start : start + 1},${end - start}`;
+            result += `@@ -${range(oldStart, oldEnd)} +${range(newStart, newEnd)} @@\n`;
+            let oldLine = oldStart;
+            for (const hunk of hunks.slice(index, last + 1)) {
+                for (; oldLine < hunk.oldStart; oldLine++) {
+                    result += formatLine(' ', oldLines[oldLine]);
+                }
+                for (let line = hunk.oldStart; line < hunk.oldEnd; line++) {
+                    result += formatLine('-', oldLines[line]);
+                }
+                for (let line = hunk.newStart; line < hunk.newEnd; line++) {
+                    result += formatLine('+', newLines[line]);
+                }
+                oldLine = hunk.oldEnd;
+            }
+            for (; oldLine < oldEnd; oldLine++) {
+                result += formatLine(' ', oldLines[oldLine]);
+            }
+            index = last + 1;
+        }
+        return result;
+    }
+
+    /**
+     * Get the runs of changed lines, in document order
+     */
+    private hunks(): LineHunk[] {
+        if (this.oldText === this.newText) {
+            return [];
+        }
+
+        const oldLines = this.splitLines(this.oldText);
+        const newLines = this.splitLines(this.newText);
+        const hunks: LineHunk[] = [];
+        let oldStart = 0;
+        let newStart = 0;
+        const addHunk = (oldEnd: number, newEnd: number) => {
+            if (oldEnd > oldStart || newEnd > newStart) {
+                hunks.push({ oldStart, oldEnd, newStart, newEnd });
+            }
+        };
+
+        for (const [oldIndex, newIndex] of this.matchLines(oldLines, newLines)) {
+            addHunk(oldIndex, newIndex);
+            oldStart = oldIndex + 1;
+            newStart = newIndex + 1;
+        }
+        addHunk(oldLines.length, newLines.length);
+
+        return hunks;
+    }
+
+    /**
+     * Find the longest common subsequence of lines (Myers' algorithm).
+     * Returns the matching line index pairs in ascending order.
+     */
+    private matchLines(a: string[], b: string[]): [number, number][] {
+        const n = a.length;
+        const m = b.length;
+        const max = n + m;
+        const offset = max + 1;
+        const v = new Int32Array(2 * max + 3);
+        /** Furthest reaching x of each diagonal k before each step d, for k in [-d - 1, d + 1] */
+        const trace: Int32Array[] = [];
+
+        let found = false;
+        for (let d = 0; d <= max && !found; d++) {
+            trace.push(v.slice(offset - d - 1, offset + d + 2));
+            for (let k = -d; k <= d; k += 2) {
+                let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+                    ? v[offset + k + 1]
+                    : v[offset + k - 1] + 1;
+                let y = x - k;
+                while (x < n && y < m && a[x] === b[y]) {
+                    x++;
+                    y++;
+                }
+                v[offset + k] = x;
+                if (x >= n && y >= m) {
+                    found = true;
+                    break;
+                }
+            }
+        }
+
+        // Walk back through the steps, collecting the diagonal runs (matching lines)
+        const matches: [number, number][] = [];
+        let x = n;
+        let y = m;
+        for (let d = trace.length - 1; d >= 0; d--) {
+            const previous = trace[d];
+            const at = (k: number) => previous[k + d + 1];
+            const k = x - y;
+            const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+            const previousX = d === 0 ? 0 : at(previousK);
+            const previousY = d === 0 ? 0 : previousX - previousK;
+            while (x > previousX && y > previousY) {
+                x--;
+                y--;
+                matches.push([x, y]);
+            }
+            x = previousX;
+            y = previousY;
+        }
+
+        return matches.reverse();
+    }
+
+    /**
+     * Narrow a replacement down to the characters that differ
+     */
+    private trim(start: number, end: number, text: string): TextReplacement {
+        const old = this.oldText.substring(start, end);
+        let prefix = 0;
+        const maxPrefix = Math.min(old.length, text.length);
+        while (prefix < maxPrefix && old[prefix] === text[prefix]) {
+            prefix++;
+        }
+        let suffix = 0;
+        const maxSuffix = maxPrefix - prefix;
+        while (suffix < maxSuffix && old[old.length - 1 - suffix] === text[text.length - 1 - suffix]) {
+            suffix++;
+        }
+        return { start: start + prefix, end: end - suffix, text: text.substring(prefix, text.length - suffix) };
+    }
+
+    /**
+     * Split a text into lines, each including its line terminator
+     */
+    private splitLines(text: string): string[] {
+        return text.match(/[^\r\n]*(\r\n|\r|\n)|[^\r\n]+$/g) ?? [];
+    }
+
+    /**
+     * Get the start offset of each line, followed by the text length
+     */
+    private lineOffsets(lines: string[]): number[] {
+        const offsets = [0];
+        for (const line of lines) {
+            offsets.push(offsets[offsets.length - 1] + line.length);
+        }
+        return offsets;
+    }
+}
@@ -0,0 +1,183 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SortingOptions } from './sorter/types';
+
+/**
+ * Name of the project options file
+ */
+export const OPTIONS_FILE_NAME = '.methodsorter.json';
+
+/**
+ * Section holding the sorting options in a package.json file
+ */
+const PACKAGE_JSON_SECTION = 'methodsorter';
+
+/**
+ * JSON schema of the project options file, in the extension's schemas folder
+ */
+const SCHEMA_FILE = path.join(__dirname, '..', 'schemas', 'methodsorter.schema.json');
+
+/**
+ * The parts of JSON schema used by the options schema
+ */
+interface JsonSchema {
+    type?: string;
+    enum?: unknown[];
+    minimum?: number;
+    properties?: Record<string, JsonSchema>;
+    additionalProperties?: boolean;
+    items?: JsonSchema;
+    uniqueItems?: boolean;
+}
+
+/** The options schema, once loaded */
+let schema: JsonSchema | undefined;
+
+/**
+ * Project options found for a directory, or the error reading them
+ */
+export type ProjectOptionsCache = Map<string, Partial<SortingOptions> | Error>;
+
+/**
+ * Find the project sorting options that apply to a file: the nearest .methodsorter.json,
+ * or "methodsorter" section of a package.json, in the file's directory or one of its parents.
+ * Returns no options when there is none. With a cache, each directory is only looked up once,
+ * and an invalid options file throws the same error for every file it applies to.
+ */
+export function findProjectOptions(file: string, cache?: ProjectOptionsCache): Partial<SortingOptions> {
+    return findDirectoryOptions(path.dirname(path.resolve(file)), cache);
+}
+
+function findDirectoryOptions(directory: string, cache?: ProjectOptionsCache): Partial<SortingOptions> {
+    let result = cache?.get(directory);
+    if (!result) {
+        try {
+            result = readDirectoryOptions(directory, cache);
+        } catch (error) {
+            result = error instanceof Error ? error : new Error(String(error));
+        }
+        cache?.set(directory, result);
+    }
+    if (result instanceof Error) {
+        throw result;
+    }
+    return result;
+}
+
+function readDirectoryOptions(directory: string, cache?: ProjectOptionsCache): Partial<SortingOptions> {
+    const optionsFile = path.join(directory, OPTIONS_FILE_NAME);
+    if (fs.existsSync(optionsFile)) {
+        return readOptionsFile(optionsFile);
+    }
+
+    const packageJson = path.join(directory, 'package.json');
+    if (fs.existsSync(packageJson)) {
+        const section = readJson(packageJson)[PACKAGE_JSON_SECTION];
+        if (section !== undefined) {
+            return validateOptions(section, `${packageJson} (${PACKAGE_JSON_SECTION})`);
+        }
+    }
+
+    const parent = path.dirname(directory);
+    return parent === directory ? {} : findDirectoryOptions(parent, cache);
+}
+
+/**
+ * Read sorting options from a JSON file. Options missing from the file are left out of the
+ * result, so that it can be merged over other options.
+ * Throws an error naming the file when it cannot be read or contains invalid options.
+ */
+export function readOptionsFile(file: string): Partial<SortingOptions> {
+    return validateOptions(readJson(file), file);
+}
+
+/**
+ * Read and parse a JSON file, throwing an error naming the file when that fails
+ */
+function readJson(file: string): Record<string, unknown> {
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Cannot read sorting options from ${file}: ${reason}`);
+    }
+}
+
+/**
+ * Check that a parsed value only holds known sorting options with valid values,
+ * as described by the options file's JSON schema
+ */
+export function validateOptions(value: unknown, file: string): Partial<SortingOptions> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new Error(`Sorting options in ${file} must be a JSON object`);
+    }
+
+    const properties = loadSchema().properties ?? {};
+    const options: Record<string, unknown> = {};
+    for (const [key, option] of Object.entries(value)) {
+        if (key === '$schema') {
+            continue;
+        }
+        if (!(key in properties)) {
+            throw new Error(`Unknown sorting option "${key}" in ${file}`);
+        }
+        const problem = checkValue(option, properties[key], key);
+        if (problem) {
+            throw new Error(`Sorting option ${problem.name} in ${file} ${problem.message}`);
+        }
+        options[key] = option;
+    }
+    return options as Partial<SortingOptions>;
+}
+
+/**
+ * Load the options file's JSON schema, which is shipped next to the compiled sources
+ */
+function loadSchema(): JsonSchema {
+    schema ??= JSON.parse(fs.readFileSync(SCHEMA_FILE, 'utf8')) as JsonSchema;
+    return schema;
+}
+
+/**
+ * Check a value against the part of JSON schema used by the options schema.
+ * Returns the first problem found, naming the offending value by its path, e.g. "orderRules[0].kind".
+ */
+function checkValue(value: unknown, valueSchema: JsonSchema, name: string): { name: string; message: string } | undefined {
+    const type = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+    if (valueSchema.type && type !== valueSchema.type) {
+        return { name: `"${name}"`, message: `must be of type ${valueSchema.type}` };
+    }
+    if (valueSchema.enum && !valueSchema.enum.includes(value)) {
+        return { name: `"${name}"`, message: `must be one of ${valueSchema.enum.map(entry => JSON.stringify(entry)).join(', ')}` };
+    }
+    if (valueSchema.minimum !== undefined && typeof value === 'number' && value < valueSchema.minimum) {
+        return { name: `"${name}"`, message: `must be at least ${valueSchema.minimum}` };
+    }
+
+    if (Array.isArray(value)) {
+        if (valueSchema.uniqueItems && new Set(value.map(item => JSON.stringify(item))).size < value.length) {
+            return { name: `"${name}"`, message: 'must not contain duplicates' };
+        }
+        for (let i = 0; i < value.length && valueSchema.items; i++) {
+            const problem = checkValue(value[i], valueSchema.items, `${name}[${i}]`);
+            if (problem) {
+                return problem;
+            }
+        }
+    } else if (type === 'object') {
+        for (const [key, property] of Object.entries(value as Record<string, unknown>)) {
+            const propertySchema = valueSchema.properties?.[key];
+            if (!propertySchema) {
+                if (valueSchema.additionalProperties === false) {
+                    return { name: `"${name}"`, message: `has an unknown property "${key}"` };
+                }
+                continue;
+            }
+            const problem = checkValue(property, propertySchema, `${name}.${key}`);
+            if (problem) {
+                return problem;
+            }
+        }
+    }
+    return undefined;
+}
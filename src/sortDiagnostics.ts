@@ -0,0 +1,118 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { OPTIONS_FILE_NAME } from './optionsFile';
+import { JavaMethodSorter } from './sorter/javaMethodSorter';
+import { JavaMethod, MisplacedMethod, SortingOptions } from './sorter/types';
+
+/**
+ * Source of the diagnostics reported for out-of-order methods
+ */
+export const DIAGNOSTIC_SOURCE = 'Method Sorter';
+
+/** Delay after the last change before a document is checked again */
+const UPDATE_DELAY = 500;
+
+/**
+ * Reports a warning on every method of an open Java document that is out of order,
+ * when the diagnostics setting is on
+ */
+export class SortDiagnostics implements vscode.Disposable {
+    private collection = vscode.languages.createDiagnosticCollection('methodsorter');
+    private pending = new Map<string, ReturnType<typeof setTimeout>>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly getOptions: (uri: vscode.Uri) => SortingOptions) {
+        this.disposables.push(
+            this.collection,
+            vscode.workspace.onDidOpenTextDocument(document => this.update(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.schedule(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.clear(document)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('tlcsdm.methodsorter')) {
+                    this.updateAll();
+                }
+            }),
+            vscode.workspace.onDidSaveTextDocument(document => {
+                if (path.basename(document.uri.path) === OPTIONS_FILE_NAME) {
+                    this.updateAll();
+                }
+            })
+        );
+        this.updateAll();
+    }
+
+    /**
+     * Check every open document again
+     */
+    updateAll(): void {
+        vscode.workspace.textDocuments.forEach(document => this.update(document));
+    }
+
+    /**
+     * Check a document and publish its diagnostics
+     */
+    update(document: vscode.TextDocument): void {
+        if (document.languageId !== 'java') {
+            return;
+        }
+        const enabled = vscode.workspace.getConfiguration('tlcsdm.methodsorter', document.uri).get<boolean>('diagnostics', false);
+        if (!enabled) {
+            this.collection.delete(document.uri);
+            return;
+        }
+
+        try {
+            const misplaced = new JavaMethodSorter(this.getOptions(document.uri)).findMisplacedMethods(document.getText());
+            this.collection.set(document.uri, misplaced.map(entry => this.createDiagnostic(document, entry)));
+        } catch {
+            // Leave the previous diagnostics while the document cannot be analyzed
+        }
+    }
+
+    dispose(): void {
+        this.pending.forEach(timer => clearTimeout(timer));
+        this.pending.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    /**
+     * Check a changed document once it has not changed for a while
+     */
+    private schedule(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        clearTimeout(this.pending.get(key));
+        this.pending.set(key, setTimeout(() => {
+            this.pending.delete(key);
+            this.update(document);
+        }, UPDATE_DELAY));
+    }
+
+    private clear(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        clearTimeout(this.pending.get(key));
+        this.pending.delete(key);
+        this.collection.delete(document.uri);
+    }
+
+    private createDiagnostic(document: vscode.TextDocument, entry: MisplacedMethod): vscode.Diagnostic {
+        const message = entry.previous
+            ? `\`${this.label(entry.method)}\` should appear after \`${this.label(entry.previous)}\`` +
+                (entry.calledByPrevious ? ' (called from it)' : '')
+            : `\`${this.label(entry.method)}\` should appear before \`${this.label(entry.next!)}\``;
+        const diagnostic = new vscode.Diagnostic(this.nameRange(document, entry.method), message, vscode.DiagnosticSeverity.Warning);
+        diagnostic.source = DIAGNOSTIC_SOURCE;
+        diagnostic.code = 'methodOrder';
+        return diagnostic;
+    }
+
+    /**
+     * Get the range of the method name in its declaration
+     */
+    private nameRange(document: vscode.TextDocument, method: JavaMethod): vscode.Range {
+        return new vscode.Range(document.positionAt(method.nameRange.start), document.positionAt(method.nameRange.end));
+    }
+
+    private label(method: JavaMethod): string {
+        return `${method.name}()`;
+    }
+}
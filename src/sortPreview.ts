@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+
+/**
+ * URI scheme of the virtual documents holding sorted previews
+ */
+export const PREVIEW_SCHEME = 'methodsorter-preview';
+
+/**
+ * A sorted preview of a document
+ */
+export interface SortPreview {
+    /** The previewed document */
+    document: vscode.Uri;
+    /** Version of the document the preview was computed from */
+    version: number;
+    /** Sorted text */
+    text: string;
+}
+
+/**
+ * Provides the content of sorted previews, shown on the right side of a diff editor
+ */
+export class SortPreviewProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private previews = new Map<string, SortPreview>();
+    private changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+    readonly onDidChange = this.changeEmitter.event;
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.previews.get(uri.toString())?.text ?? '';
+    }
+
+    /**
+     * Store the sorted preview of a document and get the URI it can be opened with.
+     * A document has one preview at a time; previewing it again replaces the content.
+     */
+    add(document: vscode.TextDocument, sortedText: string): vscode.Uri {
+        const uri = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: document.uri.path, query: document.uri.toString() });
+        this.previews.set(uri.toString(), { document: document.uri, version: document.version, text: sortedText });
+        this.changeEmitter.fire(uri);
+        return uri;
+    }
+
+    get(uri: vscode.Uri): SortPreview | undefined {
+        return this.previews.get(uri.toString());
+    }
+
+    remove(uri: vscode.Uri): void {
+        this.previews.delete(uri.toString());
+    }
+
+    dispose(): void {
+        this.previews.clear();
+        this.changeEmitter.dispose();
+    }
+}
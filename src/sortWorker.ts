@@ -0,0 +1,36 @@
+import { parentPort, workerData } from 'worker_threads';
+import { JavaMethodSorter } from './sorter/javaMethodSorter';
+import { SortingOptions } from './sorter/types';
+
+/**
+ * Work passed to the sort worker
+ */
+export interface SortRequest {
+    /** Java source to sort */
+    text: string;
+    /** Sorting options */
+    options: SortingOptions;
+    /** When given, the text is only sorted if this source (e.g. the last saved version) is already sorted */
+    baseline?: string;
+}
+
+/**
+ * Sort a Java source off the extension host thread, so that the caller can give up
+ * on a slow sort by terminating the worker. Posts the sorted text, or null when
+ * the baseline is not sorted or sorting fails.
+ */
+function run(request: SortRequest): string | null {
+    try {
+        const sorter = new JavaMethodSorter(request.options);
+        if (request.baseline !== undefined && sorter.sort(request.baseline) !== request.baseline) {
+            return null;
+        }
+        return sorter.sort(request.text);
+    } catch {
+        return null;
+    }
+}
+
+if (parentPort) {
+    parentPort.postMessage(run(workerData as SortRequest));
+}
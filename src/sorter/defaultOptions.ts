@@ -0,0 +1,22 @@
+import { SortingOptions } from './types';
+
+/**
+ * Default sorting options, matching the defaults of the extension settings
+ */
+export const DEFAULT_SORTING_OPTIONS: Required<SortingOptions> = {
+    sortingStrategy: 'depth-first',
+    applyWorkingListHeuristics: true,
+    respectBeforeAfterRelation: true,
+    clusterOverloadedMethods: false,
+    clusterGetterSetter: false,
+    separateByAccessLevel: true,
+    separateConstructors: true,
+    applyLexicalOrdering: true,
+    memberPlacement: 'anchored',
+    memberLayout: [],
+    maxNestingDepth: -1,
+    blankLinesBetweenMethods: -1,
+    orderRules: [],
+    sectionHeaders: {},
+    sortFields: false
+};
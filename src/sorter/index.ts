@@ -1,3 +1,4 @@
+export { DEFAULT_SORTING_OPTIONS } from './defaultOptions';
 export { JavaMethodSorter } from './javaMethodSorter';
 export { JavaParser } from './javaParser';
-export { SortingOptions, JavaMethod, JavaClass, AccessLevel } from './types';
+export { SortingOptions, JavaMethod, JavaMember, JavaClass, AccessLevel, MemberCategory, MemberKind, MemberPlacement, MethodInvocation, MethodKind, MisplacedMethod, MovedBlock, OrderRule, RuleSortKey, SectionName, SortResult, TextRange, TypeKind } from './types';
@@ -0,0 +1,277 @@
+/**
+ * Kinds of tokens produced by the Java lexer
+ */
+export enum TokenKind {
+    Identifier,
+    Keyword,
+    Literal,
+    Operator,
+    LineComment,
+    BlockComment
+}
+
+/**
+ * A single lexical token. Positions refer to the raw source text,
+ * so that unicode escapes keep their original extent.
+ */
+export interface Token {
+    /** Token kind */
+    kind: TokenKind;
+    /** Token text with unicode escapes decoded */
+    text: string;
+    /** Start offset in source (inclusive) */
+    start: number;
+    /** End offset in source (exclusive) */
+    end: number;
+}
+
+const KEYWORDS = new Set([
+    'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const',
+    'continue', 'default', 'do', 'double', 'else', 'enum', 'extends', 'final', 'finally', 'float',
+    'for', 'goto', 'if', 'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'native',
+    'new', 'package', 'private', 'protected', 'public', 'return', 'short', 'static', 'strictfp',
+    'super', 'switch', 'synchronized', 'this', 'throw', 'throws', 'transient', 'try', 'void',
+    'volatile', 'while', 'true', 'false', 'null'
+]);
+
+// Longest operators first so that the first match is the longest one.
+// Angle brackets are deliberately absent: '<' and '>' are always emitted as
+// single-character tokens so that nested generics such as Map<K, List<V>> close correctly.
+const OPERATORS = [
+    '...', '->', '::', '++', '--', '&&', '||', '==', '!=', '+=', '-=', '*=', '/=', '&=', '|=', '^=', '%='
+];
+
+const IDENTIFIER_START = /[\p{ID_Start}$_]/u;
+const IDENTIFIER_PART = /[\p{ID_Continue}$\u200c\u200d]/u;
+
+/**
+ * Lexer for Java source code.
+ *
+ * Handles comments, string, character and text block literals, and unicode escapes
+ * (which are translated before tokenizing, as the Java language specification requires).
+ */
+export class JavaLexer {
+    private source: string;
+    /** Source characters after unicode escape translation */
+    private chars: string[] = [];
+    /** Raw source offset of each translated character, plus the source length */
+    private offsets: number[] = [];
+    private pos: number = 0;
+
+    constructor(source: string) {
+        this.source = source;
+    }
+
+    /**
+     * Tokenize the whole source, including comment tokens
+     */
+    tokenize(): Token[] {
+        this.translateUnicodeEscapes();
+        this.pos = 0;
+
+        const tokens: Token[] = [];
+        while (this.pos < this.chars.length) {
+            const char = this.chars[this.pos];
+
+            if (char === ' ' || char === '\t' || char === '\n' || char === '\r' || char === '\f') {
+                this.pos++;
+                continue;
+            }
+
+            const start = this.pos;
+            const kind = this.readToken();
+            tokens.push({
+                kind,
+                text: this.chars.slice(start, this.pos).join(''),
+                start: this.offsets[start],
+                end: this.offsets[this.pos]
+            });
+        }
+
+        return tokens;
+    }
+
+    /**
+     * Read one token starting at the current position and return its kind
+     */
+    private readToken(): TokenKind {
+        const char = this.chars[this.pos];
+        const next = this.peek(1);
+
+        if (char === '/' && next === '/') {
+            while (this.pos < this.chars.length && this.chars[this.pos] !== '\n' && this.chars[this.pos] !== '\r') {
+                this.pos++;
+            }
+            return TokenKind.LineComment;
+        }
+
+        if (char === '/' && next === '*') {
+            this.pos += 2;
+            while (this.pos < this.chars.length && !(this.chars[this.pos] === '*' && this.peek(1) === '/')) {
+                this.pos++;
+            }
+            this.pos = Math.min(this.pos + 2, this.chars.length);
+            return TokenKind.BlockComment;
+        }
+
+        if (char === '"' && next === '"' && this.peek(2) === '"') {
+            this.readTextBlock();
+            return TokenKind.Literal;
+        }
+
+        if (char === '"' || char === '\'') {
+            this.readQuoted(char);
+            return TokenKind.Literal;
+        }
+
+        if (this.isDigit(char) || (char === '.' && this.isDigit(next))) {
+            this.readNumber();
+            return TokenKind.Literal;
+        }
+
+        if (IDENTIFIER_START.test(char)) {
+            const start = this.pos;
+            this.pos++;
+            while (this.pos < this.chars.length && IDENTIFIER_PART.test(this.chars[this.pos])) {
+                this.pos++;
+            }
+            const word = this.chars.slice(start, this.pos).join('');
+            return KEYWORDS.has(word) ? TokenKind.Keyword : TokenKind.Identifier;
+        }
+
+        for (const op of OPERATORS) {
+            if (this.matches(op)) {
+                this.pos += op.length;
+                return TokenKind.Operator;
+            }
+        }
+
+        this.pos++;
+        return TokenKind.Operator;
+    }
+
+    /**
+     * Read a string or character literal. An unterminated literal ends at the line end.
+     */
+    private readQuoted(quote: string): void {
+        this.pos++;
+        while (this.pos < this.chars.length) {
+            const char = this.chars[this.pos];
+            if (char === '\\') {
+                this.pos += 2;
+                continue;
+            }
+            if (char === '\n' || char === '\r') {
+                return;
+            }
+            this.pos++;
+            if (char === quote) {
+                return;
+            }
+        }
+        this.pos = this.chars.length;
+    }
+
+    /**
+     * Read a text block literal delimited by triple quotes
+     */
+    private readTextBlock(): void {
+        this.pos += 3;
+        while (this.pos < this.chars.length) {
+            if (this.chars[this.pos] === '\\') {
+                this.pos += 2;
+                continue;
+            }
+            if (this.matches('"""')) {
+                this.pos += 3;
+                return;
+            }
+            this.pos++;
+        }
+        this.pos = this.chars.length;
+    }
+
+    /**
+     * Read a numeric literal, including hex, binary, underscores, exponents and suffixes
+     */
+    private readNumber(): void {
+        while (this.pos < this.chars.length) {
+            const char = this.chars[this.pos];
+            const isExponent = /[eEpP]/.test(char) && /[+-]/.test(this.peek(1)) && !this.isHexPrefixed();
+            if (isExponent) {
+                this.pos += 2;
+                continue;
+            }
+            if (/[0-9a-zA-Z_.]/.test(char)) {
+                this.pos++;
+                continue;
+            }
+            break;
+        }
+    }
+
+    /**
+     * Check whether the number being read is a hex literal whose 'e' is a digit, not an exponent
+     */
+    private isHexPrefixed(): boolean {
+        let start = this.pos;
+        while (start > 0 && /[0-9a-zA-Z_.]/.test(this.chars[start - 1])) {
+            start--;
+        }
+        const prefix = this.chars.slice(start, start + 2).join('').toLowerCase();
+        return prefix === '0x' && /[eE]/.test(this.chars[this.pos]);
+    }
+
+    /**
+     * Translate unicode escapes (\uXXXX) into their characters while recording raw offsets.
+     * A backslash preceded by an odd number of backslashes does not start an escape.
+     */
+    private translateUnicodeEscapes(): void {
+        const src = this.source;
+        this.chars = [];
+        this.offsets = [];
+
+        let backslashRun = 0;
+        let i = 0;
+        while (i < src.length) {
+            const char = src[i];
+            if (char === '\\' && backslashRun % 2 === 0 && src[i + 1] === 'u') {
+                let j = i + 1;
+                while (src[j] === 'u') {
+                    j++;
+                }
+                const hex = src.substring(j, j + 4);
+                if (/^[0-9a-fA-F]{4}$/.test(hex)) {
+                    this.chars.push(String.fromCharCode(parseInt(hex, 16)));
+                    this.offsets.push(i);
+                    i = j + 4;
+                    backslashRun = 0;
+                    continue;
+                }
+            }
+
+            backslashRun = char === '\\' ? backslashRun + 1 : 0;
+            this.chars.push(char);
+            this.offsets.push(i);
+            i++;
+        }
+        this.offsets.push(src.length);
+    }
+
+    private peek(offset: number): string {
+        return this.chars[this.pos + offset] || '';
+    }
+
+    private matches(text: string): boolean {
+        for (let i = 0; i < text.length; i++) {
+            if (this.chars[this.pos + i] !== text[i]) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    private isDigit(char: string): boolean {
+        return char >= '0' && char <= '9';
+    }
+}
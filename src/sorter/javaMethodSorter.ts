@@ -1,5 +1,96 @@
-import { JavaMethod, SortingOptions } from './types';
+import {
+    AccessLevel, JavaClass, JavaMember, JavaMethod, MemberCategory, MemberPlacement, MisplacedMethod, MovedBlock, OrderRule, RuleSortKey,
+    SectionName, SortingOptions, SortResult, TextRange
+} from './types';
 import { JavaParser } from './javaParser';
+import { OverloadResolver } from './overloadResolver';
+
+/**
+ * Produces the new order of the methods of one class
+ */
+type MethodOrder = (methods: JavaMethod[]) => JavaMethod[];
+
+/**
+ * Produces the new order of the non-method members of one class
+ */
+type MemberOrder = (members: JavaMember[], javaClass: JavaClass) => JavaMember[];
+
+/**
+ * How the bodies of the classes in a file are rewritten
+ */
+interface Rewrite {
+    /** New order of the methods of each class */
+    order: MethodOrder;
+    /** New order of the other members of each class; they keep their order when not given */
+    memberOrder?: MemberOrder;
+    /**
+     * Only exchange the text of methods between their slots: members stay in place
+     * and the text between slots is kept as it is
+     */
+    inPlace?: boolean;
+    /** Member blocks written so far; target ranges are relative to the text being built */
+    blocks: MovedBlock[];
+    /** Line terminator of the source, used for the line breaks the sorter inserts */
+    lineEnding: string;
+    /** Write the configured section headers above the first method of each section */
+    sectionHeaders?: boolean;
+}
+
+/**
+ * An order rule with its patterns compiled
+ */
+interface CompiledRule {
+    rule: OrderRule;
+    name?: RegExp;
+    returnType?: RegExp;
+}
+
+/**
+ * A section of the sorted output: an order rule category, or a group of the methods matching no rule
+ */
+interface Section {
+    key: string;
+    /** Header comment, if one is configured */
+    header?: string;
+}
+
+/**
+ * Methods placed together in the sorted output, with the order among them
+ */
+interface Category {
+    methods: JavaMethod[];
+    sortBy: RuleSortKey;
+}
+
+/** Modifiers of order rules that are matched against the access level */
+const ACCESS_MODIFIERS: Record<string, AccessLevel> = {
+    'public': AccessLevel.PUBLIC,
+    'protected': AccessLevel.PROTECTED,
+    'package-private': AccessLevel.PACKAGE,
+    'private': AccessLevel.PRIVATE
+};
+
+/** Default order of the member categories that memberLayout does not list */
+const DEFAULT_LAYOUT: MemberCategory[] = ['staticFields', 'staticInitializers', 'instanceFields', 'instanceInitializers', 'methods', 'types'];
+
+/** Section names of the access levels */
+const ACCESS_SECTIONS: SectionName[] = ['publicMethods', 'protectedMethods', 'packagePrivateMethods', 'privateMethods'];
+
+/** Annotations of hooks that run before tests or after construction */
+const SETUP_ANNOTATIONS = new Set([
+    'BeforeAll', 'BeforeClass', 'BeforeSuite', 'BeforeTest', 'BeforeEach', 'Before', 'BeforeMethod', 'PostConstruct'
+]);
+
+/** Annotations of test methods */
+const TEST_ANNOTATIONS = new Set(['Test', 'ParameterizedTest', 'RepeatedTest', 'TestFactory', 'TestTemplate']);
+
+/** Annotations of hooks that run after tests or before destruction */
+const TEARDOWN_ANNOTATIONS = new Set([
+    'AfterEach', 'After', 'AfterMethod', 'AfterTest', 'AfterSuite', 'AfterAll', 'AfterClass', 'PreDestroy'
+]);
+
+/** A run of banner characters, such as '=====', that decorates a section header */
+const HEADER_DECORATION = /([-=*#~_+/])\1{3,}/;
 
 /**
  * Java Method Sorter - sorts methods in Java classes to increase code readability
@@ -9,24 +100,54 @@ import { JavaParser } from './javaParser';
  */
 export class JavaMethodSorter {
     private options: SortingOptions;
+    private rules: CompiledRule[];
+    /** Every configured section header, as written to the source */
+    private headers: Set<string>;
+    /** Patterns of decorated headers with any title, matching banners of earlier header templates */
+    private headerStyles: RegExp[];
 
     constructor(options: SortingOptions) {
         this.options = options;
+        this.rules = (options.orderRules ?? []).map(rule => this.compileRule(rule));
+        const headers = [...Object.values(options.sectionHeaders ?? {}), ...this.rules.map(compiled => compiled.rule.header)];
+        this.headers = new Set(headers.filter((header): header is string => !!header).map(header => this.formatHeader(header)));
+        this.headerStyles = [...this.headers].flatMap(header => this.headerStyle(header) ?? []);
     }
 
     /**
-     * Sort methods in the given Java source code
+     * Sort methods in the given Java source code, in every class of the file
      */
     sort(source: string): string {
-        const parser = new JavaParser(source);
-        const javaClass = parser.parse();
+        return this.sortWithBlocks(source).text;
+    }
 
-        if (!javaClass || javaClass.methods.length === 0) {
-            return source;
-        }
+    /**
+     * Sort only the methods fully contained in each selection, among themselves.
+     * Every other part of the source, including the text between the sorted methods, is kept as it is.
+     */
+    sortSelections(source: string, selections: TextRange[]): string {
+        return this.sortWithBlocks(source, selections).text;
+    }
 
-        const sortedMethods = this.sortMethods(javaClass.methods);
-        return this.reconstructSource(javaClass.preMethodsContent, sortedMethods, javaClass.postMethodsContent);
+    /**
+     * Sort methods like sort, or like sortSelections when selections are given, and also report
+     * where the member blocks of every rewritten class ended up in the sorted source
+     */
+    sortWithBlocks(source: string, selections?: TextRange[]): SortResult {
+        const parser = new JavaParser(source);
+        const classes = parser.parseAll();
+        const lineEnding = this.detectLineEnding(source);
+        const rewrite: Rewrite = selections
+            ? { order: this.selectionOrder(selections), inPlace: true, blocks: [], lineEnding }
+            : {
+                order: methods => this.sortMethods(methods),
+                memberOrder: this.options.sortFields ? (members, javaClass) => this.sortFields(members, javaClass) : undefined,
+                blocks: [],
+                lineEnding,
+                sectionHeaders: true
+            };
+        const text = this.rewriteRange(source, 0, source.length, classes, 0, rewrite);
+        return { text, blocks: rewrite.blocks };
     }
 
     /**
@@ -34,27 +155,131 @@ export class JavaMethodSorter {
      */
     shuffleRandomly(source: string): string {
         const parser = new JavaParser(source);
-        const javaClass = parser.parse();
+        const classes = parser.parseAll();
+        const rewrite: Rewrite = { order: methods => this.shuffleArray([...methods]), blocks: [], lineEnding: this.detectLineEnding(source) };
+        return this.rewriteRange(source, 0, source.length, classes, 0, rewrite);
+    }
+
+    /**
+     * Find the methods that are out of order, in every class of the file.
+     * Only the fewest methods that have to move are reported: those outside the longest run
+     * of methods that are already in sorted order relative to each other.
+     */
+    findMisplacedMethods(source: string): MisplacedMethod[] {
+        const parser = new JavaParser(source);
+        const misplaced: MisplacedMethod[] = [];
+        const visit = (classes: JavaClass[], depth: number) => {
+            const maxDepth = this.options.maxNestingDepth ?? -1;
+            for (const javaClass of classes) {
+                if (maxDepth >= 0 && depth > maxDepth) {
+                    continue;
+                }
+                misplaced.push(...this.findMisplacedInClass(javaClass.methods));
+                visit(javaClass.types, depth + 1);
+            }
+        };
+        visit(parser.parseAll(), 0);
+        return misplaced.sort((a, b) => a.method.startPos - b.method.startPos);
+    }
+
+    /**
+     * Find the methods of one class that are out of order
+     */
+    private findMisplacedInClass(methods: JavaMethod[]): MisplacedMethod[] {
+        const sorted = this.orderAroundPinned(methods, unpinned => this.sortMethods(unpinned));
+        const targetIndex = new Map(sorted.map((method, index) => [method, index]));
+        const kept = new Set(this.longestIncreasingRun(methods.map(method => targetIndex.get(method)!)).map(i => methods[i]));
+        const callGraph = this.buildCallGraph(methods);
+
+        return methods
+            .filter(method => !kept.has(method))
+            .map(method => {
+                const index = targetIndex.get(method)!;
+                const previous = index > 0 ? sorted[index - 1] : null;
+                return {
+                    method,
+                    previous,
+                    next: index < sorted.length - 1 ? sorted[index + 1] : null,
+                    calledByPrevious: previous !== null && (callGraph.get(previous.signature)?.has(method.signature) ?? false)
+                };
+            });
+    }
+
+    /**
+     * Find the longest strictly increasing subsequence of the values (patience sorting).
+     * Returns the indices of its elements.
+     */
+    private longestIncreasingRun(values: number[]): number[] {
+        /** Index of the smallest tail value of an increasing run of each length */
+        const tails: number[] = [];
+        const predecessors: number[] = [];
+        values.forEach((value, index) => {
+            let low = 0;
+            let high = tails.length;
+            while (low < high) {
+                const middle = (low + high) >> 1;
+                if (values[tails[middle]] < value) {
+                    low = middle + 1;
+                } else {
+                    high = middle;
+                }
+            }
+            predecessors[index] = low > 0 ? tails[low - 1] : -1;
+            tails[low] = index;
+        });
 
-        if (!javaClass || javaClass.methods.length === 0) {
-            return source;
+        const run: number[] = [];
+        for (let index = tails.length > 0 ? tails[tails.length - 1] : -1; index >= 0; index = predecessors[index]) {
+            run.push(index);
         }
+        return run.reverse();
+    }
+
+    /**
+     * Build the method order that sorts the methods of each selection among themselves
+     */
+    private selectionOrder(selections: TextRange[]): MethodOrder {
+        return methods => {
+            const result = [...methods];
+            for (const selection of selections) {
+                const indices = methods
+                    .map((method, index) => ({ method, index }))
+                    .filter(({ method }) => this.containsMethod(selection, method))
+                    .map(({ index }) => index);
+                const sorted = this.sortMethods(indices.map(index => methods[index]));
+                indices.forEach((index, i) => (result[index] = sorted[i]));
+            }
+            return result;
+        };
+    }
 
-        const shuffledMethods = this.shuffleArray([...javaClass.methods]);
-        return this.reconstructSource(javaClass.preMethodsContent, shuffledMethods, javaClass.postMethodsContent);
+    /**
+     * Check whether a selection contains a method, ignoring the indentation before it and the
+     * whitespace after it
+     */
+    private containsMethod(selection: TextRange, method: JavaMethod): boolean {
+        const start = method.startPos + method.fullText.length - method.fullText.trimStart().length;
+        const end = method.startPos + method.fullText.trimEnd().length;
+        return selection.start <= start && end <= selection.end;
     }
 
     /**
-     * Sort methods according to configured options
+     * Sort methods according to configured options.
+     *
+     * Methods are split into categories (the order rules, then constructors, static methods and
+     * access levels); each category is ordered by invocation as a topological order of its
+     * call graph, or lexically otherwise.
+     * The result depends only on the methods, never on the sort algorithm, and sorting an
+     * already sorted class changes nothing.
      */
     private sortMethods(methods: JavaMethod[]): JavaMethod[] {
-        let sorted = [...methods];
-
         // Build call graph for invocation-based sorting
-        const callGraph = this.buildCallGraph(sorted);
+        const callGraph = this.buildCallGraph(methods);
 
-        // Apply sorting based on options
-        sorted.sort((a, b) => this.compareMethodsFull(a, b, callGraph));
+        let sorted: JavaMethod[] = [];
+        for (const category of this.categorize(methods)) {
+            sorted.push(...this.orderCategory(category, callGraph));
+        }
 
         // Apply clustering if enabled
         if (this.options.clusterOverloadedMethods) {
@@ -69,9 +294,157 @@ export class JavaMethodSorter {
     }
 
     /**
-     * Full comparison of two methods using all configured criteria
+     * Split methods into the categories of the order rules, followed by the groups
+     * of the methods that match no rule
+     */
+    private categorize(methods: JavaMethod[]): Category[] {
+        const defaultSortBy: RuleSortKey = this.options.respectBeforeAfterRelation
+            ? 'invocation'
+            : this.options.applyLexicalOrdering ? 'lexical' : 'original';
+
+        const matched = this.rules.map(() => [] as JavaMethod[]);
+        const unmatched: JavaMethod[] = [];
+        for (const method of methods) {
+            const index = this.rules.findIndex(rule => this.matchesRule(method, rule));
+            (index >= 0 ? matched[index] : unmatched).push(method);
+        }
+
+        const categories = matched.map((group, index) => ({
+            methods: group,
+            sortBy: this.rules[index].rule.sortBy ?? defaultSortBy
+        }));
+        for (const group of this.groupMethods(unmatched)) {
+            categories.push({ methods: group, sortBy: defaultSortBy });
+        }
+        return categories.filter(category => category.methods.length > 0);
+    }
+
+    /**
+     * Order the methods of a category by its sort key
+     */
+    private orderCategory(category: Category, callGraph: Map<string, Set<string>>): JavaMethod[] {
+        const byPosition = (a: JavaMethod, b: JavaMethod) => a.originalPosition - b.originalPosition;
+        switch (category.sortBy) {
+            case 'original':
+                return [...category.methods].sort(byPosition);
+            case 'lexical':
+                return [...category.methods].sort((a, b) => this.compareLexically(a, b) || byPosition(a, b));
+            default:
+                return this.orderByInvocation([...category.methods].sort((a, b) => this.compareWithinGroup(a, b)), callGraph);
+        }
+    }
+
+    /**
+     * Split methods into groups, in group order, each ordered lexically (if enabled)
+     * and then by original position
+     */
+    private groupMethods(methods: JavaMethod[]): JavaMethod[][] {
+        const sorted = [...methods].sort((a, b) => this.compareGroups(a, b) || this.compareWithinGroup(a, b));
+
+        const groups: JavaMethod[][] = [];
+        for (const method of sorted) {
+            const current = groups[groups.length - 1];
+            if (current && this.compareGroups(current[0], method) === 0) {
+                current.push(method);
+            } else {
+                groups.push([method]);
+            }
+        }
+        return groups;
+    }
+
+    /**
+     * Compare two methods of the same group, before invocation order is applied
+     */
+    private compareWithinGroup(a: JavaMethod, b: JavaMethod): number {
+        // Lexical ordering (if enabled)
+        if (this.options.applyLexicalOrdering) {
+            const lexicalDiff = this.compareLexically(a, b);
+            if (lexicalDiff !== 0) {return lexicalDiff;}
+        }
+
+        // Fall back to original position
+        return a.originalPosition - b.originalPosition;
+    }
+
+    /**
+     * Compare method names alphabetically, with a fixed locale so that every environment agrees
+     */
+    private compareLexically(a: JavaMethod, b: JavaMethod): number {
+        return a.name.localeCompare(b.name, 'en') || a.signature.localeCompare(b.signature, 'en');
+    }
+
+    /**
+     * Compile the patterns of an order rule
+     */
+    private compileRule(rule: OrderRule): CompiledRule {
+        const compile = (pattern: string | undefined, field: string): RegExp | undefined => {
+            if (pattern === undefined) {
+                return undefined;
+            }
+            try {
+                return new RegExp(`^(?:${pattern})$`);
+            } catch {
+                throw new Error(`Invalid ${field} pattern in orderRules: ${pattern}`);
+            }
+        };
+        return { rule, name: compile(rule.name, 'name'), returnType: compile(rule.returnType, 'returnType') };
+    }
+
+    /**
+     * Check whether a method meets every condition of an order rule
+     */
+    private matchesRule(method: JavaMethod, compiled: CompiledRule): boolean {
+        const rule = compiled.rule;
+        switch (rule.kind) {
+            case 'constructor':
+                if (!method.isConstructor) {return false;}
+                break;
+            case 'method':
+                if (method.isConstructor) {return false;}
+                break;
+            case 'getter':
+                if (!method.isGetter) {return false;}
+                break;
+            case 'setter':
+                if (!method.isSetter) {return false;}
+                break;
+        }
+
+        for (const modifier of rule.modifiers ?? []) {
+            const negated = modifier.startsWith('!');
+            if (this.hasModifier(method, negated ? modifier.substring(1) : modifier) === negated) {
+                return false;
+            }
+        }
+
+        if (rule.annotations && rule.annotations.length > 0) {
+            const names = method.annotations.map(a => this.annotationName(a));
+            if (!rule.annotations.some(a => names.includes(this.annotationName(a)))) {
+                return false;
+            }
+        }
+
+        if (compiled.name && !compiled.name.test(method.name)) {
+            return false;
+        }
+        return !compiled.returnType || compiled.returnType.test(method.returnType);
+    }
+
+    private hasModifier(method: JavaMethod, modifier: string): boolean {
+        if (modifier in ACCESS_MODIFIERS) {
+            return method.accessLevel === ACCESS_MODIFIERS[modifier];
+        }
+        if (modifier === 'static') {
+            return method.isStatic;
+        }
+        return method.modifiers.includes(modifier);
+    }
+
+    /**
+     * Compare the groups two methods belong to
      */
-    private compareMethodsFull(a: JavaMethod, b: JavaMethod, callGraph: Map<string, Set<string>>): number {
+    private compareGroups(a: JavaMethod, b: JavaMethod): number {
         // 1. Constructors first (if enabled)
         if (this.options.separateConstructors) {
             if (a.isConstructor && !b.isConstructor) {return -1;}
@@ -88,100 +461,263 @@ export class JavaMethodSorter {
             if (accessDiff !== 0) {return accessDiff;}
         }
 
-        // 4. Invocation ordering
-        if (this.options.respectBeforeAfterRelation) {
-            const invocationOrder = this.compareByInvocation(a, b, callGraph);
-            if (invocationOrder !== 0) {return invocationOrder;}
-        }
+        return 0;
+    }
 
-        // 5. Lexical ordering (if enabled)
-        if (this.options.applyLexicalOrdering) {
-            const lexicalDiff = a.name.localeCompare(b.name);
-            if (lexicalDiff !== 0) {return lexicalDiff;}
-        }
+    /**
+     * Order a group of methods by invocation: every method comes after all methods of the group
+     * that call it (stepdown rule), as a topological order of the call graph.
+     *
+     * Cycles (recursion between methods) are collapsed into strongly connected components, which
+     * are placed as a whole. Among the components that may be placed next, the strategy decides:
+     * - depth-first: the most recently discovered callee, so each callee's subtree is completed first
+     * - breadth-first: the earliest discovered callee, so a method is followed by all its direct callees
+     * When no discovered callee may be placed, the next entry point from the working list
+     * (see findEntryPoints) is used, then the first remaining method in group order.
+     * Callees are discovered in the order they are first called in the body.
+     */
+    private orderByInvocation(group: JavaMethod[], callGraph: Map<string, Set<string>>): JavaMethod[] {
+        const bySignature = new Map(group.map(m => [m.signature, m]));
+        const callees = (method: JavaMethod): JavaMethod[] =>
+            Array.from(callGraph.get(method.signature) ?? [])
+                .map(signature => bySignature.get(signature))
+                .filter((m): m is JavaMethod => m !== undefined);
 
-        // 6. Fall back to original position
-        return a.originalPosition - b.originalPosition;
+        const components = this.findStronglyConnectedComponents(group, callees);
+        const componentOf = new Map<JavaMethod, number>();
+        components.forEach((component, index) => component.forEach(m => componentOf.set(m, index)));
+
+        // Calls between components form an acyclic graph
+        const callers = components.map(() => new Set<number>());
+        components.forEach((component, index) => {
+            for (const callee of component.flatMap(callees)) {
+                const target = componentOf.get(callee)!;
+                if (target !== index) {
+                    callers[target].add(index);
+                }
+            }
+        });
+
+        const called = new Set(group.flatMap(m => callees(m)));
+        const workingList = this.findEntryPoints(group, called);
+        const breadthFirst = this.options.sortingStrategy === 'breadth-first';
+
+        const placed = new Set<number>();
+        const isAvailable = (index: number) =>
+            !placed.has(index) && Array.from(callers[index]).every(caller => placed.has(caller));
+        /** Discovered components, oldest first, with the member through which each was first entered */
+        let frontier: number[] = [];
+        const entryMember = new Map<number, JavaMethod>();
+
+        const result: JavaMethod[] = [];
+        while (placed.size < components.length) {
+            const candidates = breadthFirst ? frontier : [...frontier].reverse();
+            let next = candidates.find(isAvailable);
+            if (next === undefined) {
+                const entryPoint = workingList.find(m => isAvailable(componentOf.get(m)!)) ??
+                    group.find(m => isAvailable(componentOf.get(m)!))!;
+                next = componentOf.get(entryPoint)!;
+                entryMember.set(next, entryPoint);
+            }
+
+            placed.add(next);
+            frontier = frontier.filter(index => index !== next);
+            const members = this.orderComponent(components[next], entryMember.get(next) ?? components[next][0], callees);
+            result.push(...members);
+
+            // Discover the callees of the placed component
+            const discovered: number[] = [];
+            for (const callee of members.flatMap(callees)) {
+                const target = componentOf.get(callee)!;
+                if (placed.has(target) || discovered.includes(target)) {
+                    continue;
+                }
+                discovered.push(target);
+                if (!breadthFirst || !entryMember.has(target)) {
+                    entryMember.set(target, callee);
+                }
+            }
+            frontier = breadthFirst
+                ? [...frontier, ...discovered.filter(index => !frontier.includes(index))]
+                : [...frontier.filter(index => !discovered.includes(index)), ...discovered.reverse()];
+        }
+        return result;
     }
 
     /**
-     * Compare methods based on invocation relationship
-     * Methods that call other methods should come before the methods they call
+     * Find the strongly connected components of the call graph of a group (Tarjan's algorithm).
+     * The members of each component are in group order.
      */
-    private compareByInvocation(a: JavaMethod, b: JavaMethod, callGraph: Map<string, Set<string>>): number {
-        const aCalls = callGraph.get(a.name);
-        const bCalls = callGraph.get(b.name);
+    private findStronglyConnectedComponents(
+        group: JavaMethod[],
+        callees: (method: JavaMethod) => JavaMethod[]
+    ): JavaMethod[][] {
+        const index = new Map<JavaMethod, number>();
+        const lowLink = new Map<JavaMethod, number>();
+        const stack: JavaMethod[] = [];
+        const onStack = new Set<JavaMethod>();
+        const components: JavaMethod[][] = [];
 
-        // If a calls b, a should come first
-        if (aCalls?.has(b.name)) {
-            return -1;
-        }
-        // If b calls a, b should come first
-        if (bCalls?.has(a.name)) {
-            return 1;
-        }
+        const connect = (method: JavaMethod): void => {
+            index.set(method, index.size);
+            lowLink.set(method, index.get(method)!);
+            stack.push(method);
+            onStack.add(method);
 
-        // Check transitive calls (depth-first approach)
-        if (this.options.sortingStrategy === 'depth-first') {
-            if (this.transitivelyCallsMethod(a.name, b.name, callGraph, new Set())) {
-                return -1;
+            for (const callee of callees(method)) {
+                if (!index.has(callee)) {
+                    connect(callee);
+                    lowLink.set(method, Math.min(lowLink.get(method)!, lowLink.get(callee)!));
+                } else if (onStack.has(callee)) {
+                    lowLink.set(method, Math.min(lowLink.get(method)!, index.get(callee)!));
+                }
             }
-            if (this.transitivelyCallsMethod(b.name, a.name, callGraph, new Set())) {
-                return 1;
+
+            if (lowLink.get(method) === index.get(method)) {
+                const component: JavaMethod[] = [];
+                let member: JavaMethod;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== method);
+                components.push(component.sort((a, b) => group.indexOf(a) - group.indexOf(b)));
             }
-        }
+        };
 
-        return 0;
+        for (const method of group) {
+            if (!index.has(method)) {
+                connect(method);
+            }
+        }
+        return components;
     }
 
     /**
-     * Check if method A transitively calls method B
+     * Order the members of a strongly connected component by traversing its internal calls
+     * from the member through which it is entered
      */
-    private transitivelyCallsMethod(
-        methodA: string, 
-        methodB: string, 
-        callGraph: Map<string, Set<string>>,
-        visited: Set<string>
-    ): boolean {
-        if (visited.has(methodA)) {
-            return false;
+    private orderComponent(
+        component: JavaMethod[],
+        entry: JavaMethod,
+        callees: (method: JavaMethod) => JavaMethod[]
+    ): JavaMethod[] {
+        if (component.length === 1) {
+            return component;
         }
-        visited.add(methodA);
 
-        const calls = callGraph.get(methodA);
-        if (!calls) {
-            return false;
+        const members = new Set(component);
+        const internalCallees = (method: JavaMethod) => callees(method).filter(m => members.has(m));
+        const result: JavaMethod[] = [];
+        const visited = new Set<JavaMethod>();
+        if (this.options.sortingStrategy === 'breadth-first') {
+            this.visitBreadthFirst(entry, internalCallees, visited, result);
+        } else {
+            this.visitDepthFirst(entry, internalCallees, visited, result);
         }
+        return result;
+    }
 
-        if (calls.has(methodB)) {
-            return true;
+    /**
+     * Build the working list of traversal start points for a group.
+     *
+     * Without heuristics these are the methods nobody else in the group calls, in their current order.
+     * With applyWorkingListHeuristics, likely entry points are picked and ranked, even when
+     * they are called from within the class:
+     * constructors, main, setup hooks, tests, teardown hooks, overrides,
+     * then public and finally other methods nobody calls.
+     */
+    private findEntryPoints(group: JavaMethod[], called: Set<JavaMethod>): JavaMethod[] {
+        if (!this.options.applyWorkingListHeuristics) {
+            return group.filter(m => !called.has(m));
         }
 
-        for (const calledMethod of calls) {
-            if (this.transitivelyCallsMethod(calledMethod, methodB, callGraph, visited)) {
-                return true;
+        const rank = (method: JavaMethod): number => {
+            const annotations = method.annotations.map(a => this.annotationName(a));
+            const hasAnnotation = (names: Set<string>) => annotations.some(a => names.has(a));
+            if (method.isConstructor) {return 0;}
+            if (this.isMainMethod(method)) {return 1;}
+            if (hasAnnotation(SETUP_ANNOTATIONS)) {return 2;}
+            if (hasAnnotation(TEST_ANNOTATIONS)) {return 3;}
+            if (hasAnnotation(TEARDOWN_ANNOTATIONS)) {return 4;}
+            if (annotations.includes('Override')) {return 5;}
+            if (called.has(method)) {return -1;}
+            return method.accessLevel === AccessLevel.PUBLIC ? 6 : 7;
+        };
+
+        return group
+            .map((method, index) => ({ method, index, rank: rank(method) }))
+            .filter(entry => entry.rank >= 0)
+            .sort((a, b) => a.rank - b.rank || a.index - b.index)
+            .map(entry => entry.method);
+    }
+
+    /**
+     * Get the simple name of an annotation, e.g. 'Test' for '@org.junit.Test(timeout = 10)'
+     */
+    private annotationName(annotation: string): string {
+        const name = annotation.replace(/^@\s*/, '').replace(/\s*\(.*$/s, '');
+        return name.substring(name.lastIndexOf('.') + 1).trim();
+    }
+
+    private isMainMethod(method: JavaMethod): boolean {
+        return method.name === 'main' && method.isStatic && method.returnType === 'void' &&
+            method.parameterTypes.length === 1 && /^String\s*(\[\]|\.\.\.)$/.test(method.parameterTypes[0]);
+    }
+
+    private visitDepthFirst(
+        method: JavaMethod,
+        callees: (method: JavaMethod) => JavaMethod[],
+        visited: Set<JavaMethod>,
+        result: JavaMethod[]
+    ): void {
+        visited.add(method);
+        result.push(method);
+        for (const callee of callees(method)) {
+            if (!visited.has(callee)) {
+                this.visitDepthFirst(callee, callees, visited, result);
             }
         }
+    }
 
-        return false;
+    private visitBreadthFirst(
+        start: JavaMethod,
+        callees: (method: JavaMethod) => JavaMethod[],
+        visited: Set<JavaMethod>,
+        result: JavaMethod[]
+    ): void {
+        const queue = [start];
+        visited.add(start);
+        while (queue.length > 0) {
+            const method = queue.shift()!;
+            result.push(method);
+            for (const callee of callees(method)) {
+                if (!visited.has(callee)) {
+                    visited.add(callee);
+                    queue.push(callee);
+                }
+            }
+        }
     }
 
     /**
-     * Build a call graph from the methods
+     * Build a call graph from the methods, keyed by signature so that each overload is its own node
      */
     private buildCallGraph(methods: JavaMethod[]): Map<string, Set<string>> {
         const callGraph = new Map<string, Set<string>>();
-        const methodNames = new Set(methods.map(m => m.name));
+        const resolver = new OverloadResolver(methods);
 
         for (const method of methods) {
             const calls = new Set<string>();
-            for (const called of method.calledMethods) {
-                // Only include calls to methods in this class
-                if (methodNames.has(called) && called !== method.name) {
-                    calls.add(called);
+            for (const invocation of method.invocations) {
+                // Only include calls to methods in this class, resolved to the overloads they target
+                for (const called of resolver.resolve(invocation)) {
+                    if (called.signature !== method.signature) {
+                        calls.add(called.signature);
+                    }
                 }
             }
-            callGraph.set(method.name, calls);
+            callGraph.set(method.signature, calls);
         }
 
         return callGraph;
@@ -283,27 +819,426 @@ export class JavaMethodSorter {
     }
 
     /**
-     * Reconstruct the source from sorted methods
+     * Order the methods that are not pinned, and put them into the slots around the pinned methods,
+     * which keep their index
+     */
+    private orderAroundPinned(methods: JavaMethod[], order: MethodOrder): JavaMethod[] {
+        const ordered = order(methods.filter(method => !method.pinned));
+        let next = 0;
+        return methods.map(method => (method.pinned ? method : ordered[next++]));
+    }
+
+    /**
+     * Sort the fields of a class: constants, static fields, then instance fields, each by access level
+     * when separateByAccessLevel is on. Fields only move between the field slots that lie between the
+     * same initializer blocks and pinned members. Two fields where one's initializer mentions the other
+     * keep their relative order, so that no forward reference becomes illegal or changes its value.
+     */
+    private sortFields(members: JavaMember[], javaClass: JavaClass): JavaMember[] {
+        const result = [...members];
+        let segment: number[] = [];
+        const sortSegment = () => {
+            const ordered = this.orderFields(segment.map(index => members[index]), javaClass);
+            segment.forEach((index, i) => (result[index] = ordered[i]));
+            segment = [];
+        };
+        members.forEach((member, index) => {
+            if (member.kind === 'field' && !member.pinned) {
+                segment.push(index);
+            } else if (member.kind === 'initializer' || member.kind === 'staticInitializer' || member.pinned) {
+                sortSegment();
+            }
+        });
+        sortSegment();
+        return result;
+    }
+
+    /**
+     * Order fields by group and access level, keeping fields that refer to each other in their original order
+     */
+    private orderFields(fields: JavaMember[], javaClass: JavaClass): JavaMember[] {
+        // Interface and annotation fields are implicitly static and final
+        const implicitConstants = javaClass.kind === 'interface' || javaClass.kind === 'annotation';
+        const isStatic = (field: JavaMember) => implicitConstants || field.modifiers.includes('static');
+        const rank = (field: JavaMember) => {
+            const isFinal = implicitConstants || field.modifiers.includes('final');
+            const group = isStatic(field) ? (isFinal ? 0 : 1) : 2;
+            return group * 4 + (this.options.separateByAccessLevel ? field.accessLevel : 0);
+        };
+        const refersTo = (a: JavaMember, b: JavaMember) => a.references.some(name => b.variableNames.includes(name));
+        // Static fields are initialized before instance fields whatever their order
+        const mustPrecede = (a: JavaMember, b: JavaMember) =>
+            a.originalPosition < b.originalPosition && isStatic(a) === isStatic(b) && (refersTo(a, b) || refersTo(b, a));
+
+        const remaining = [...fields].sort((a, b) => rank(a) - rank(b) || a.originalPosition - b.originalPosition);
+        const ordered: JavaMember[] = [];
+        while (remaining.length > 0) {
+            const next = remaining.findIndex(field => !remaining.some(other => mustPrecede(other, field)));
+            ordered.push(...remaining.splice(Math.max(next, 0), 1));
+        }
+        return ordered;
+    }
+
+    /**
+     * Arrange the members of a class by the memberLayout option: enum constants first, then the
+     * categories in the configured order, followed by the categories it does not list.
+     * Members keep their order within a category. Field initializers and initializer blocks of the
+     * same kind (static or instance) run in source order, so a field never moves past an initializer
+     * block of its kind, whatever the layout. Pinned members keep their slot.
+     */
+    private layoutMembers(
+        original: (JavaMethod | JavaMember)[],
+        methods: JavaMethod[],
+        members: JavaMember[],
+        layout: MemberCategory[],
+        javaClass: JavaClass
+    ): (JavaMethod | JavaMember)[] {
+        const categories = [...layout, ...DEFAULT_LAYOUT.filter(category => !layout.includes(category))];
+        const categoryOf = (member: JavaMethod | JavaMember) => (this.isMethod(member) ? 'methods' : this.memberCategory(member, javaClass));
+        const rank = (member: JavaMethod | JavaMember) =>
+            (!this.isMethod(member) && member.kind === 'enumConstants' ? -1 : categories.indexOf(categoryOf(member)));
+        const initialization = (member: JavaMethod | JavaMember) => {
+            if (!this.isMethod(member) && member.kind === 'enumConstants') {
+                return null;
+            }
+            const category = categoryOf(member);
+            return category.startsWith('static') ? 'static' : category.startsWith('instance') ? 'instance' : null;
+        };
+        const isBlock = (member: JavaMethod | JavaMember) => categoryOf(member).endsWith('Initializers');
+        const mustPrecede = (a: JavaMethod | JavaMember, b: JavaMethod | JavaMember) =>
+            a.startPos < b.startPos && (isBlock(a) || isBlock(b)) && initialization(a) !== null && initialization(a) === initialization(b);
+
+        const remaining = [...methods, ...members]
+            .filter(member => !member.pinned)
+            .sort((a, b) => rank(a) - rank(b));
+        const laidOut: (JavaMethod | JavaMember)[] = [];
+        while (remaining.length > 0) {
+            const next = remaining.findIndex(member => !remaining.some(other => mustPrecede(other, member)));
+            laidOut.push(...remaining.splice(Math.max(next, 0), 1));
+        }
+        let next = 0;
+        return original.map(member => (member.pinned ? member : laidOut[next++]));
+    }
+
+    /**
+     * Get the memberLayout category of a non-method member
+     */
+    private memberCategory(member: JavaMember, javaClass: JavaClass): MemberCategory {
+        switch (member.kind) {
+            case 'staticInitializer':
+                return 'staticInitializers';
+            case 'initializer':
+                return 'instanceInitializers';
+            case 'type':
+                return 'types';
+            default: {
+                // Interface and annotation fields are implicitly static
+                const isStatic = javaClass.kind === 'interface' || javaClass.kind === 'annotation' || member.modifiers.includes('static');
+                return isStatic ? 'staticFields' : 'instanceFields';
+            }
+        }
+    }
+
+    /**
+     * Place the non-method members among the ordered methods according to the memberPlacement option
+     */
+    private placeMembers(
+        original: (JavaMethod | JavaMember)[],
+        methods: JavaMethod[],
+        members: JavaMember[],
+        placement: MemberPlacement
+    ): (JavaMethod | JavaMember)[] {
+        // Enum constants must stay at the start of the enum body
+        const constants = members.filter(m => m.kind === 'enumConstants');
+        const others = members.filter(m => m.kind !== 'enumConstants');
+        if (placement === 'beforeMethods') {
+            return [...constants, ...others, ...methods];
+        }
+        if (placement === 'afterMethods') {
+            return [...constants, ...methods, ...others];
+        }
+
+        // Anchored: members fill the slots of members, methods the remaining slots, in order
+        let nextMethod = 0;
+        let nextMember = 0;
+        return original.map(member => (this.isMethod(member) ? methods[nextMethod++] : members[nextMember++]));
+    }
+
+    /**
+     * Rewrite the source range [start, end), replacing the body of every class inside it
+     * with its reordered body
+     */
+    private rewriteRange(
+        source: string,
+        start: number,
+        end: number,
+        classes: JavaClass[],
+        depth: number,
+        rewrite: Rewrite
+    ): string {
+        let result = '';
+        let pos = start;
+        for (const javaClass of classes) {
+            if (javaClass.bodyStart < start || javaClass.bodyEnd > end) {
+                continue;
+            }
+            result += source.substring(pos, javaClass.bodyStart);
+            const recorded = rewrite.blocks.length;
+            const body = this.rewriteBody(source, javaClass, depth, rewrite);
+            this.shiftBlocks(rewrite, recorded, result.length);
+            result += body;
+            pos = javaClass.bodyEnd;
+        }
+        return result + source.substring(pos, end);
+    }
+
+    /**
+     * Rewrite the body of a class: reorder its methods, and recurse into its nested classes
+     * down to the configured maximum nesting depth
      */
-    private reconstructSource(preContent: string, methods: JavaMethod[], postContent: string): string {
-        const methodTexts = methods.map(m => {
-            // Normalize fullText: remove leading newlines but preserve indentation
-            const normalizedFullText = m.fullText.replace(/^\n+/, '');
-            
-            // Preserve leading content with indentation, only trim leading blank lines
-            // This keeps the comment/annotation indentation intact
-            const leading = m.leadingContent.replace(/^\n+/, '');
-            if (leading.trim()) {
-                return leading + normalizedFullText;
+    private rewriteBody(source: string, javaClass: JavaClass, depth: number, rewrite: Rewrite): string {
+        const maxDepth = this.options.maxNestingDepth ?? -1;
+        if (maxDepth >= 0 && depth > maxDepth) {
+            return source.substring(javaClass.bodyStart, javaClass.bodyEnd);
+        }
+
+        const original = [...javaClass.methods, ...javaClass.members].sort((a, b) => a.startPos - b.startPos);
+        const placement = rewrite.inPlace ? 'anchored' : this.options.memberPlacement ?? 'anchored';
+        const methods = this.orderAroundPinned(javaClass.methods, rewrite.order);
+        const members = rewrite.memberOrder ? rewrite.memberOrder(javaClass.members, javaClass) : javaClass.members;
+        const layout = rewrite.inPlace ? [] : this.options.memberLayout ?? [];
+        const ordered = layout.length > 0
+            ? this.layoutMembers(original, methods, members, layout, javaClass)
+            : this.placeMembers(original, methods, members, placement);
+        // With section headers, an unchanged order may still need its headers updated
+        const updateHeaders = rewrite.sectionHeaders && this.headers.size > 0;
+        if (!updateHeaders && ordered.every((member, index) => member === original[index])) {
+            // Order unchanged: keep the body as it is, apart from its nested classes
+            return this.rewriteRange(source, javaClass.bodyStart, javaClass.bodyEnd, javaClass.types, depth + 1, rewrite);
+        }
+
+        return this.reconstructSource(source, javaClass, original, ordered, depth, rewrite);
+    }
+
+    /**
+     * Reconstruct a class body from its reordered members.
+     * Members that stay next to each other keep their original spacing; other members are separated
+     * by the configured or prevailing number of blank lines, or by the original text when their slots
+     * were on the same line. When rewriting in place, the text between
+     * slots is always kept. Leading content a member does not own, such as section headers and
+     * free-standing comments, stays in its slot instead of moving with the member.
+     */
+    private reconstructSource(
+        source: string,
+        javaClass: JavaClass,
+        original: (JavaMethod | JavaMember)[],
+        ordered: (JavaMethod | JavaMember)[],
+        depth: number,
+        rewrite: Rewrite
+    ): string {
+        const separator = rewrite.lineEnding.repeat(this.blankLinesBetweenMethods(source, original) + 1);
+        const isField = (member: JavaMethod | JavaMember) => !this.isMethod(member) && member.kind === 'field';
+        const fieldSeparator = rewrite.lineEnding.repeat(this.prevailingBlankLines(source, original, isField, 0) + 1);
+        const updateHeaders = rewrite.sectionHeaders === true && this.headers.size > 0;
+        const current: { section?: Section } = {};
+        let result = '';
+        ordered.forEach((member, index) => {
+            const previous = index > 0 ? ordered[index - 1] : null;
+
+            if (rewrite.inPlace) {
+                // Keep the original text in front of this slot
+                result += index > 0
+                    ? source.substring(original[index - 1].endPos, original[index].startPos - original[index].leadingContent.length)
+                    : javaClass.preMethodsContent;
+            } else if (!previous) {
+                result += javaClass.preMethodsContent;
+            } else if (original.indexOf(member) === original.indexOf(previous) + 1) {
+                // Keep the original text between the two members
+                result += source.substring(previous.endPos, member.startPos - member.leadingContent.length);
+            } else {
+                // Slots that shared a line, as in one-line classes, keep sharing it
+                const slotGap = source.substring(original[index - 1].endPos, original[index].startPos - original[index].leadingContent.length);
+                result += !/[\r\n]/.test(slotGap) ? slotGap
+                    : isField(previous) && isField(member) ? fieldSeparator : separator;
             }
-            return normalizedFullText;
+
+            // The leading content of the slot that stays in place, and the generated header when a section starts here
+            const slot = original[index];
+            const slotHeader = source.substring(slot.startPos - slot.leadingContent.length, slot.ownStart);
+            result += updateHeaders
+                ? this.removeHeaders(slotHeader) + this.sectionHeader(member, current, rewrite.lineEnding)
+                : slotHeader;
+
+            // The member text including its own leading comments, with its nested classes rewritten
+            const start = member.ownStart;
+            const recorded = rewrite.blocks.length;
+            let text = this.rewriteRange(source, start, member.endPos, javaClass.types, depth + 1, rewrite);
+            let removed = 0;
+            if (updateHeaders) {
+                const leading = text.substring(0, member.startPos - start);
+                const kept = this.removeHeaders(leading);
+                removed = leading.length - kept.length;
+                text = kept + text.substring(leading.length);
+            }
+            this.shiftBlocks(rewrite, recorded, result.length - removed);
+            rewrite.blocks.push({
+                from: { start, end: member.endPos },
+                to: { start: result.length, end: result.length + text.length }
+            });
+            result += text;
         });
 
-        // Normalize preContent: remove trailing whitespace and excess newlines
-        // Add consistent single blank line before first method
-        const normalizedPreContent = preContent.replace(/\s+$/, '') + '\n\n';
+        return result + javaClass.postMethodsContent;
+    }
+
+    /**
+     * Get the generated header to write above a member: the header of its section, if the member
+     * is a method whose section differs from that of the method before it. Clustering can move a
+     * method away from its section, so a section may start more than once.
+     * Pinned methods do not start a section.
+     */
+    private sectionHeader(member: JavaMethod | JavaMember, current: { section?: Section }, lineEnding: string): string {
+        if (!this.isMethod(member) || member.pinned) {
+            return '';
+        }
+        const previous = current.section;
+        const section = this.sectionOf(member);
+        current.section = section;
+        if (previous?.key === section.key) {
+            return '';
+        }
+        // Adjacent sections sharing a header, such as getter and setter rules, get it once
+        const header = section.header ? this.formatHeader(section.header) : '';
+        if (!header || (previous?.header && this.formatHeader(previous.header) === header)) {
+            return '';
+        }
+        const indentation = /^[ \t]*/.exec(member.fullText)![0];
+        return indentation + header + lineEnding;
+    }
+
+    /**
+     * Get the section a method is placed in: the category of the first order rule it matches,
+     * or the group of the methods matching no rule
+     */
+    private sectionOf(method: JavaMethod): Section {
+        const ruleIndex = this.rules.findIndex(rule => this.matchesRule(method, rule));
+        if (ruleIndex >= 0) {
+            return { key: `rule ${ruleIndex}`, header: this.rules[ruleIndex].rule.header };
+        }
+
+        let name: SectionName;
+        if (method.isConstructor && this.options.separateConstructors) {
+            name = 'constructors';
+        } else if (method.isStatic) {
+            name = 'staticMethods';
+        } else {
+            name = this.options.separateByAccessLevel ? ACCESS_SECTIONS[method.accessLevel] : 'methods';
+        }
+        return { key: name, header: this.options.sectionHeaders?.[name] };
+    }
+
+    /**
+     * Make a configured header a line comment, unless it already is a comment
+     */
+    private formatHeader(header: string): string {
+        const trimmed = header.trim();
+        return trimmed.startsWith('//') || trimmed.startsWith('/*') ? trimmed : `// ${trimmed}`;
+    }
+
+    /**
+     * Remove the lines holding a section header written by an earlier sort: a configured header,
+     * or a header decorated like one, whose title may since have changed
+     */
+    private removeHeaders(text: string): string {
+        return (text.match(/[^\r\n]*(\r\n|\r|\n)|[^\r\n]+$/g) ?? [])
+            .filter(line => !this.headers.has(line.trim()) && !this.headerStyles.some(style => style.test(line.trim())))
+            .join('');
+    }
+
+    /**
+     * Get the pattern matching a header with the same decoration and any title,
+     * e.g. '// ===== .+ =====' for '// ===== Constructors ====='. Headers without decoration have none.
+     */
+    private headerStyle(header: string): RegExp | undefined {
+        const title = /[\p{L}\p{N}](.*[\p{L}\p{N}])?/u.exec(header);
+        if (!title) {
+            return undefined;
+        }
+        const prefix = header.substring(0, title.index);
+        const suffix = header.substring(title.index + title[0].length);
+        if (!HEADER_DECORATION.test(prefix) && !HEADER_DECORATION.test(suffix)) {
+            return undefined;
+        }
+        const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return new RegExp(`^${escape(prefix)}\\S.*${escape(suffix)}$`);
+    }
+
+    /**
+     * Get the number of blank lines between members that are no longer next to each other:
+     * the configured number, or the one that prevails between the methods of the class
+     */
+    private blankLinesBetweenMethods(source: string, original: (JavaMethod | JavaMember)[]): number {
+        const configured = this.options.blankLinesBetweenMethods ?? -1;
+        return configured >= 0 ? configured : this.prevailingBlankLines(source, original, member => this.isMethod(member), 1);
+    }
+
+    /**
+     * Get the number of blank lines that prevails between consecutive members of a kind
+     * (on a tie the fallback if it is among the tied, else the larger one; the fallback when no two
+     * such members are next to each other)
+     */
+    private prevailingBlankLines(
+        source: string,
+        original: (JavaMethod | JavaMember)[],
+        ofKind: (member: JavaMethod | JavaMember) => boolean,
+        fallback: number
+    ): number {
+        const counts = new Map<number, number>();
+        for (let i = 1; i < original.length; i++) {
+            const [previous, member] = [original[i - 1], original[i]];
+            if (ofKind(previous) && ofKind(member)) {
+                const gap = source.substring(previous.endPos, member.startPos - member.leadingContent.length);
+                const blankLines = Math.max(0, (gap.match(/\r\n|\r|\n/g) ?? []).length - 1);
+                counts.set(blankLines, (counts.get(blankLines) ?? 0) + 1);
+            }
+        }
+        let prevailing = fallback;
+        let highest = 0;
+        for (const [blankLines, count] of counts) {
+            const winsTie = blankLines === fallback || (prevailing !== fallback && blankLines > prevailing);
+            if (count > highest || (count === highest && winsTie)) {
+                prevailing = blankLines;
+                highest = count;
+            }
+        }
+        return prevailing;
+    }
+
+    /**
+     * Get the prevailing line terminator of the source
+     */
+    private detectLineEnding(source: string): string {
+        const crlf = (source.match(/\r\n/g) ?? []).length;
+        const lf = (source.match(/(?<!\r)\n/g) ?? []).length;
+        const cr = (source.match(/\r(?!\n)/g) ?? []).length;
+        if (crlf > lf && crlf >= cr) {
+            return '\r\n';
+        }
+        return cr > lf ? '\r' : '\n';
+    }
+
+    /**
+     * Move the target ranges of the blocks recorded since the given count by the offset
+     * at which their enclosing text is inserted
+     */
+    private shiftBlocks(rewrite: Rewrite, since: number, offset: number): void {
+        for (const block of rewrite.blocks.slice(since)) {
+            block.to = { start: block.to.start + offset, end: block.to.end + offset };
+        }
+    }
 
-        return normalizedPreContent + methodTexts.join('\n\n') + postContent;
+    private isMethod(member: JavaMethod | JavaMember): member is JavaMethod {
+        return !('kind' in member);
     }
 
     /**
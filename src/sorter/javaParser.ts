@@ -1,499 +1,1150 @@
-import { JavaMethod, JavaClass, AccessLevel } from './types';
+import { JavaMethod, JavaMember, JavaClass, AccessLevel, MemberKind, MethodInvocation, TypeKind } from './types';
+import { JavaLexer, Token, TokenKind } from './javaLexer';
 
 /**
- * Represents a region in source code that should be skipped
+ * Kinds of member declarations found in a type body
  */
-interface SkipRegion {
-    start: number;
-    end: number;
+type DeclarationKind = 'method' | 'constructor' | 'field' | 'type' | 'initializer' | 'enumConstants';
+
+/**
+ * A member declaration located in the token stream
+ */
+interface Declaration {
+    kind: DeclarationKind;
+    /** Index of the first token (first annotation or modifier) */
+    firstToken: number;
+    /** Index of the last token (closing brace or semicolon) */
+    lastToken: number;
+    /** Declared name, empty for initializers */
+    name: string;
+    modifiers: string[];
+    annotations: string[];
+    /** Method return type, empty for constructors and non-methods */
+    returnType: string;
+    /** Index of the opening parenthesis of the parameter list */
+    paramsOpen: number;
+    /** Index of the opening brace of the body, -1 if there is none */
+    bodyOpen: number;
+    /** Index of the first declared variable name of a field */
+    nameToken?: number;
+}
+
+/**
+ * Bounds of a type declaration in the token stream
+ */
+interface TypeBounds {
+    name: string;
+    kind: TypeKind;
+    /** Index of the opening brace of the type body */
+    bodyOpen: number;
+    /** Index of the closing brace of the type body */
+    bodyClose: number;
+    /** Index of the opening parenthesis of a record's component list, -1 for other kinds */
+    componentsOpen: number;
 }
 
 /**
- * Parser for Java source code to extract methods and class structure
+ * A declared parameter or record component
+ */
+interface Parameter {
+    type: string;
+    name: string;
+}
+
+const MODIFIERS = new Set([
+    'public', 'protected', 'private', 'static', 'final', 'abstract', 'synchronized',
+    'native', 'strictfp', 'transient', 'volatile', 'default'
+]);
+
+const TYPE_KEYWORDS = new Set(['class', 'interface', 'enum']);
+
+const TYPE_KINDS: Record<string, TypeKind> = {
+    'class': 'class',
+    'interface': 'interface',
+    'enum': 'enum',
+    'record': 'record',
+    '@interface': 'annotation'
+};
+
+/**
+ * Comments that head a section of members, such as '// ---- Getters ----' or '//region',
+ * rather than document the member below them
+ */
+const SECTION_HEADER = /^(\/\/.*([-=*#~_+/])\2{3,}|\/\*.*([-=*#~_+])\3{3,}.*\*\/$|\/\/\s*(#?(end)?region(?!\w)|<\/?editor-fold))/;
+
+/** Sorter marker comments */
+const SORTER_MARKER = /(?:\/\/|\/\*)\s*@sorter:(off|on|pin)\b/;
+
+/**
+ * Parser for Java source code to extract methods and class structure.
+ *
+ * The source is tokenized by {@link JavaLexer} and then walked member by member,
+ * so comments, literals, generics and nested bodies never confuse the declaration boundaries.
  */
 export class JavaParser {
     private source: string;
-    private pos: number = 0;
+    /** Significant tokens (comments excluded) */
+    private tokens: Token[] = [];
+    /** Comment tokens */
+    private comments: Token[] = [];
+    /** Index of the matching bracket for every (, [, { and their closing counterparts */
+    private matching: number[] = [];
 
     constructor(source: string) {
         this.source = source;
     }
 
     /**
-     * Parse the Java source and extract class structure
+     * Parse the Java source and extract the structure of its first top-level type
      */
     parse(): JavaClass | null {
-        const className = this.findClassName();
-        if (!className) {
-            return null;
+        return this.parseAll()[0] ?? null;
+    }
+
+    /**
+     * Parse the Java source and extract the structure of every top-level type,
+     * including their nested and local types
+     */
+    parseAll(): JavaClass[] {
+        this.tokenize();
+        return this.findTopLevelTypes().map(type => this.buildClass(type));
+    }
+
+    /**
+     * Tokenize the source and pair up brackets
+     */
+    private tokenize(): void {
+        const all = new JavaLexer(this.source).tokenize();
+        this.tokens = all.filter(t => t.kind !== TokenKind.LineComment && t.kind !== TokenKind.BlockComment);
+        this.comments = all.filter(t => t.kind === TokenKind.LineComment || t.kind === TokenKind.BlockComment);
+
+        this.matching = new Array(this.tokens.length).fill(-1);
+        const pairs: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+        const stack: number[] = [];
+        this.tokens.forEach((token, index) => {
+            if (token.kind !== TokenKind.Operator) {
+                return;
+            }
+            if (token.text === '(' || token.text === '[' || token.text === '{') {
+                stack.push(index);
+            } else if (pairs[token.text]) {
+                // Pop until the matching opener so one stray bracket does not unbalance the rest
+                for (let s = stack.length - 1; s >= 0; s--) {
+                    if (this.tokens[stack[s]].text === pairs[token.text]) {
+                        this.matching[stack[s]] = index;
+                        this.matching[index] = stack[s];
+                        stack.length = s;
+                        break;
+                    }
+                }
+            }
+        });
+    }
+
+    /**
+     * Find all top-level type declarations
+     */
+    private findTopLevelTypes(): TypeBounds[] {
+        const types: TypeBounds[] = [];
+        let i = 0;
+        while (i < this.tokens.length) {
+            const text = this.tokens[i].text;
+            if (text === 'package' || text === 'import') {
+                i = Math.max(this.skipToSemicolon(i), i) + 1;
+                continue;
+            }
+
+            const declaration = this.parseDeclaration(i, this.tokens.length);
+            if (!declaration) {
+                i++;
+                continue;
+            }
+            const type = this.toTypeBounds(declaration);
+            if (type) {
+                types.push(type);
+            }
+            i = declaration.lastToken + 1;
         }
+        return types;
+    }
 
-        // Find the main class body boundaries
-        const classBodyBounds = this.findMainClassBody(className);
-        if (!classBodyBounds) {
+    /**
+     * Get the bounds of a type declaration, or null if the declaration is not one
+     */
+    private toTypeBounds(declaration: Declaration): TypeBounds | null {
+        if (declaration.kind !== 'type') {
             return null;
         }
+        const kind = TYPE_KINDS[this.typeKeyword(declaration)];
+        return {
+            name: declaration.name,
+            kind,
+            bodyOpen: declaration.bodyOpen,
+            bodyClose: declaration.lastToken,
+            componentsOpen: kind === 'record' ? this.findRecordComponents(declaration.firstToken, declaration.bodyOpen) : -1
+        };
+    }
 
-        const methods = this.extractMethods(className, classBodyBounds);
-        const { preMethodsContent, postMethodsContent } = this.extractNonMethodContent(methods, classBodyBounds);
+    /**
+     * Find the opening parenthesis of the record component list in a record header
+     */
+    private findRecordComponents(start: number, bodyOpen: number): number {
+        for (let i = start; i < bodyOpen; i++) {
+            if (this.isRecordKeyword(i)) {
+                const open = this.tokens[i + 2].text === '<' ? this.skipAngles(i + 2) : i + 2;
+                return this.tokens[open]?.text === '(' ? open : -1;
+            }
+        }
+        return -1;
+    }
+
+    /**
+     * Build the structure of a type body, recursing into its nested and local types
+     */
+    private buildClass(type: TypeBounds): JavaClass {
+        // Enum constants always come first; the remaining members follow the constant list
+        const constants = type.kind === 'enum' ? this.parseEnumConstants(type.bodyOpen, type.bodyClose) : null;
+        const declarations = constants
+            ? [constants, ...this.parseMembers(constants.lastToken, type.bodyClose)]
+            : this.parseMembers(type.bodyOpen, type.bodyClose);
+        const { methods, members } = this.extractMembers(type, declarations);
+        const bodyStart = this.tokens[type.bodyOpen].end;
+        const bodyEnd = this.tokens[type.bodyClose].start;
+        const { preMethodsContent, postMethodsContent } = this.extractNonMethodContent([...methods, ...members], bodyStart, bodyEnd);
+
+        const types: JavaClass[] = [];
+        for (const declaration of declarations) {
+            const nested = this.toTypeBounds(declaration);
+            let found: TypeBounds[];
+            if (nested) {
+                found = [nested];
+            } else if (declaration.kind === 'enumConstants') {
+                found = this.findEnumConstantBodies(declaration.firstToken, declaration.lastToken);
+            } else {
+                found = this.findLocalTypes(declaration.firstToken, declaration.lastToken);
+            }
+            types.push(...found.map(t => this.buildClass(t)));
+        }
 
         return {
-            name: className,
+            name: type.name,
+            kind: type.kind,
             preMethodsContent,
             methods,
-            postMethodsContent
+            members,
+            postMethodsContent,
+            types,
+            bodyStart,
+            bodyEnd
         };
     }
 
     /**
-     * Find the main class name in the source
+     * Find local type declarations in the tokens [start, end] of a method, field or initializer.
+     * Anonymous classes are not types of their own and are left alone.
      */
-    private findClassName(): string | null {
-        const classPattern = /(?:public\s+)?(?:abstract\s+)?(?:final\s+)?class\s+(\w+)/;
-        const match = this.source.match(classPattern);
-        return match ? match[1] : null;
+    private findLocalTypes(start: number, end: number): TypeBounds[] {
+        const types: TypeBounds[] = [];
+        for (let i = start; i <= end; i++) {
+            const token = this.tokens[i];
+            const isRecord = this.isRecordKeyword(i);
+            const isLocalType = isRecord || (TYPE_KEYWORDS.has(token.text) && token.kind === TokenKind.Keyword &&
+                this.tokens[i - 1]?.text !== '.' && this.tokens[i + 1]?.kind === TokenKind.Identifier);
+            if (!isLocalType) {
+                continue;
+            }
+
+            const bodyOpen = this.findTypeBodyOpen(i + 1, end);
+            if (bodyOpen === -1 || this.matching[bodyOpen] === -1) {
+                continue;
+            }
+            types.push({
+                name: this.tokens[i + 1].text,
+                kind: TYPE_KINDS[token.text],
+                bodyOpen,
+                bodyClose: this.matching[bodyOpen],
+                componentsOpen: isRecord ? this.findRecordComponents(i, bodyOpen) : -1
+            });
+            i = this.matching[bodyOpen];
+        }
+        return types;
     }
 
     /**
-     * Find the boundaries of the main class body
+     * Parse the constant list at the start of an enum body, up to and including its semicolon
      */
-    private findMainClassBody(className: string): { start: number; end: number; bodyStart: number } | null {
-        // Find the main class declaration
-        const classPattern = new RegExp(`(?:public\\s+)?(?:abstract\\s+)?(?:final\\s+)?class\\s+${className}\\s*(?:extends\\s+\\w+)?(?:\\s+implements\\s+[\\w\\s,]+)?\\s*\\{`);
-        const match = this.source.match(classPattern);
-        if (!match) {
+    private parseEnumConstants(bodyOpen: number, bodyClose: number): Declaration | null {
+        let i = bodyOpen + 1;
+        if (i >= bodyClose) {
             return null;
         }
 
-        const classStart = match.index!;
-        const bodyStart = classStart + match[0].length - 1; // Position of opening brace
-        const bodyEnd = this.findMatchingBrace(bodyStart);
-
-        if (bodyEnd === -1) {
-            return null;
+        while (i < bodyClose && this.tokens[i].text !== ';') {
+            const text = this.tokens[i].text;
+            const isBracket = text === '(' || text === '[' || text === '{';
+            i = isBracket && this.matching[i] !== -1 ? this.matching[i] + 1 : i + 1;
         }
 
-        return { start: classStart, end: bodyEnd, bodyStart };
+        return {
+            kind: 'enumConstants',
+            firstToken: bodyOpen + 1,
+            lastToken: Math.min(i, bodyClose - 1),
+            name: '',
+            modifiers: [],
+            annotations: [],
+            returnType: '',
+            paramsOpen: -1,
+            bodyOpen: -1
+        };
     }
 
     /**
-     * Find all regions to skip: nested classes and initializer blocks
+     * Find the class bodies of constants in an enum constant list
      */
-    private findSkipRegions(classBodyBounds: { start: number; end: number; bodyStart: number }): SkipRegion[] {
-        const skipRegions: SkipRegion[] = [];
-        const bodyContent = this.source.substring(classBodyBounds.bodyStart + 1, classBodyBounds.end);
-        const offset = classBodyBounds.bodyStart + 1;
+    private findEnumConstantBodies(start: number, end: number): TypeBounds[] {
+        const types: TypeBounds[] = [];
+        let name = '';
+        for (let i = start; i <= end; i++) {
+            const token = this.tokens[i];
+            if (token.text === '@') {
+                i = this.skipAnnotation(i) - 1;
+            } else if (token.kind === TokenKind.Identifier) {
+                name = token.text;
+            } else if (token.text === '(' && this.matching[i] !== -1) {
+                i = this.matching[i];
+            } else if (token.text === '{' && this.matching[i] !== -1) {
+                types.push({ name, kind: 'enumConstant', bodyOpen: i, bodyClose: this.matching[i], componentsOpen: -1 });
+                i = this.matching[i];
+            }
+        }
+        return types;
+    }
 
-        // Find nested classes (static and non-static inner classes)
-        const nestedClassPattern = /(?:(?:public|protected|private|static|final|abstract)\s+)*class\s+\w+\s*(?:extends\s+\w+)?(?:\s+implements\s+[\w\s,]+)?\s*\{/g;
-        let match;
-        while ((match = nestedClassPattern.exec(bodyContent)) !== null) {
-            const start = offset + match.index;
-            const bracePos = start + match[0].length - 1;
-            const end = this.findMatchingBrace(bracePos);
-            if (end !== -1) {
-                skipRegions.push({ start, end: end + 1 });
-                // Skip past this class to avoid finding inner classes within inner classes
-                nestedClassPattern.lastIndex = end - offset + 1;
+    /**
+     * Get the keyword (class, interface, enum, record or @interface) of a type declaration
+     */
+    private typeKeyword(declaration: Declaration): string {
+        for (let i = declaration.firstToken; i < declaration.bodyOpen; i++) {
+            const token = this.tokens[i];
+            if (TYPE_KEYWORDS.has(token.text) && token.kind === TokenKind.Keyword) {
+                return this.tokens[i - 1]?.text === '@' ? '@interface' : token.text;
+            }
+            if (this.isRecordKeyword(i)) {
+                return 'record';
             }
         }
+        return '';
+    }
+
+    /**
+     * Split a type body into member declarations
+     */
+    private parseMembers(bodyOpen: number, bodyClose: number): Declaration[] {
+        const declarations: Declaration[] = [];
+        let i = bodyOpen + 1;
 
-        // Find static initializer blocks: "static {"
-        const staticInitPattern = /\bstatic\s*\{/g;
-        while ((match = staticInitPattern.exec(bodyContent)) !== null) {
-            // Make sure this is a standalone static block, not "static class" or "static method"
-            const beforeMatch = bodyContent.substring(0, match.index);
-            const lastNewline = beforeMatch.lastIndexOf('\n');
-            const lineStart = lastNewline === -1 ? 0 : lastNewline + 1;
-            const lineBeforeStatic = bodyContent.substring(lineStart, match.index).trim();
-            
-            // If there's other code on the same line before "static", skip this match
-            if (lineBeforeStatic.length > 0 && !lineBeforeStatic.startsWith('//') && !lineBeforeStatic.startsWith('*')) {
+        while (i < bodyClose) {
+            if (this.tokens[i].text === ';') {
+                i++;
                 continue;
             }
 
-            const start = offset + match.index;
-            const bracePos = start + match[0].length - 1;
-            const end = this.findMatchingBrace(bracePos);
-            if (end !== -1) {
-                skipRegions.push({ start, end: end + 1 });
-            }
-        }
-
-        // Find instance initializer blocks: standalone "{"
-        // These are blocks that start with just "{" at the beginning of a line
-        const lines = bodyContent.split('\n');
-        let pos = 0;
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            const trimmedLine = line.trim();
-            
-            // Instance initializer: a line with just "{"
-            if (trimmedLine === '{') {
-                const start = offset + pos + line.indexOf('{');
-                const end = this.findMatchingBrace(start);
-                if (end !== -1) {
-                    // Make sure this isn't already covered by a skip region
-                    if (!skipRegions.some(r => start >= r.start && start <= r.end)) {
-                        skipRegions.push({ start, end: end + 1 });
-                    }
-                }
+            const declaration = this.parseDeclaration(i, bodyClose);
+            if (!declaration) {
+                // Unrecognised tokens: resynchronise after the next statement or block
+                i = Math.max(this.skipToSemicolon(i, bodyClose), i) + 1;
+                continue;
             }
-            
-            pos += line.length + 1; // +1 for newline
+
+            declarations.push(declaration);
+            i = declaration.lastToken + 1;
         }
 
-        return skipRegions;
+        return declarations;
     }
 
     /**
-     * Check if a position is within any skip region
+     * Parse a single member declaration starting at token index start
      */
-    private isInSkipRegion(pos: number, skipRegions: SkipRegion[]): boolean {
-        return skipRegions.some(r => pos >= r.start && pos < r.end);
-    }
+    private parseDeclaration(start: number, limit: number): Declaration | null {
+        const modifiers: string[] = [];
+        const annotations: string[] = [];
+        let i = start;
 
-    /**
-     * Extract all methods from the source
-     */
-    private extractMethods(className: string, classBodyBounds: { start: number; end: number; bodyStart: number }): JavaMethod[] {
-        const methods: JavaMethod[] = [];
-        const skipRegions = this.findSkipRegions(classBodyBounds);
-        const methodPattern = this.createMethodPattern(className);
-        
-        let match;
-        let lastMethodEnd = classBodyBounds.bodyStart + 1; // Start after opening brace
-        const regex = new RegExp(methodPattern, 'g');
-        
-        // Only search within the main class body
-        const searchArea = this.source.substring(classBodyBounds.bodyStart + 1, classBodyBounds.end);
-        const searchOffset = classBodyBounds.bodyStart + 1;
-        
-        while ((match = regex.exec(searchArea)) !== null) {
-            // Calculate the actual method start (after the line start pattern)
-            const rawMatchStart = searchOffset + match.index;
-            const matchedText = match[0];
-            
-            // Find where the actual method declaration starts (skip only the initial newline from pattern)
-            // We want to preserve leading whitespace/indentation on the same line
-            let actualMethodStart = rawMatchStart;
-            if (this.source[actualMethodStart] === '\n') {
-                actualMethodStart++;
-            }
-            
-            // Skip if this match is within a skip region (nested class or initializer block)
-            if (this.isInSkipRegion(actualMethodStart, skipRegions)) {
+        // Annotations and modifiers may be freely interleaved
+        while (i < limit) {
+            const token = this.tokens[i];
+            if (token.text === '@' && this.tokens[i + 1]?.text !== 'interface') {
+                const end = this.skipAnnotation(i);
+                annotations.push(this.source.substring(token.start, this.tokens[end - 1].end));
+                i = end;
+            } else if (token.kind === TokenKind.Keyword && MODIFIERS.has(token.text)) {
+                modifiers.push(token.text);
+                i++;
+            } else if (token.text === 'sealed' && this.tokens[i + 1]?.kind !== TokenKind.Operator) {
+                modifiers.push('sealed');
+                i++;
+            } else if (token.text === 'non' && this.tokens[i + 1]?.text === '-' && this.tokens[i + 2]?.text === 'sealed') {
+                modifiers.push('non-sealed');
+                i += 3;
+            } else {
+                break;
+            }
+        }
+
+        if (i >= limit) {
+            return null;
+        }
+
+        const base = { firstToken: start, modifiers, annotations, returnType: '', paramsOpen: -1 };
+        const token = this.tokens[i];
+
+        // Initializer block
+        if (token.text === '{') {
+            const close = this.matching[i];
+            if (close === -1) {
+                return null;
+            }
+            return { ...base, kind: 'initializer', lastToken: close, name: '', bodyOpen: i };
+        }
+
+        // Nested type declaration
+        const isAnnotationType = token.text === '@' && this.tokens[i + 1]?.text === 'interface';
+        if (isAnnotationType || (TYPE_KEYWORDS.has(token.text) && token.kind === TokenKind.Keyword) || this.isRecordKeyword(i)) {
+            const nameIndex = isAnnotationType ? i + 2 : i + 1;
+            const bodyOpen = this.findTypeBodyOpen(nameIndex, limit);
+            if (bodyOpen === -1 || this.matching[bodyOpen] === -1) {
+                return null;
+            }
+            return {
+                ...base,
+                kind: 'type',
+                lastToken: this.matching[bodyOpen],
+                name: this.tokens[nameIndex]?.text ?? '',
+                bodyOpen
+            };
+        }
+
+        // Generic method or constructor type parameters
+        if (token.text === '<') {
+            i = this.skipAngles(i);
+        }
+
+        // Compact canonical constructor of a record: a name directly followed by the body
+        if (this.tokens[i]?.kind === TokenKind.Identifier && this.tokens[i + 1]?.text === '{' && this.matching[i + 1] !== -1) {
+            return { ...base, kind: 'constructor', name: this.tokens[i].text, lastToken: this.matching[i + 1], bodyOpen: i + 1 };
+        }
+
+        // Constructor: a name directly followed by the parameter list
+        if (this.tokens[i]?.kind === TokenKind.Identifier && this.tokens[i + 1]?.text === '(') {
+            return this.parseMethodRest({ ...base, kind: 'constructor', name: this.tokens[i].text }, i + 1, limit);
+        }
+
+        // Method or field: scan the type up to the declared name
+        const typeStart = i;
+        while (i < limit) {
+            const text = this.tokens[i].text;
+            if (text === '<') {
+                i = this.skipAngles(i);
                 continue;
             }
-            
-            const leadingContent = this.extractLeadingContent(actualMethodStart, lastMethodEnd, skipRegions);
-            const bodyStart = this.source.indexOf('{', rawMatchStart + matchedText.length - 1);
-            
-            if (bodyStart === -1 || bodyStart >= classBodyBounds.end) {
-                // Abstract method or interface method
-                const semicolon = this.source.indexOf(';', actualMethodStart);
-                if (semicolon !== -1 && semicolon < classBodyBounds.end) {
-                    const method = this.createMethodFromAbstract(match, actualMethodStart, semicolon + 1, leadingContent, className);
-                    methods.push(method);
-                    lastMethodEnd = semicolon + 1;
-                }
+            if (text === '@') {
+                i = this.skipAnnotation(i);
                 continue;
             }
-
-            // Skip if body start is in a skip region
-            if (this.isInSkipRegion(bodyStart, skipRegions)) {
+            if (text === '[') {
+                i = this.matching[i] === -1 ? i + 1 : this.matching[i] + 1;
                 continue;
             }
+            if (text === '(' && i > typeStart && this.tokens[i - 1].kind === TokenKind.Identifier) {
+                const returnType = this.normalizeWhitespace(
+                    this.source.substring(this.tokens[typeStart].start, this.tokens[i - 2].end)
+                );
+                return this.parseMethodRest({ ...base, kind: 'method', name: this.tokens[i - 1].text, returnType }, i, limit);
+            }
+            if (text === '=' || text === ';' || text === ',') {
+                const name = this.tokens[i - 1]?.kind === TokenKind.Identifier ? this.tokens[i - 1].text : '';
+                return { ...base, kind: 'field', name, nameToken: i - 1, lastToken: this.skipToSemicolon(i, limit), bodyOpen: -1 };
+            }
+            if (text === '{' || text === '}' || text === '(') {
+                return null;
+            }
+            i++;
+        }
+
+        return null;
+    }
 
-            const bodyEnd = this.findMatchingBrace(bodyStart);
-            if (bodyEnd === -1 || bodyEnd >= classBodyBounds.end) {
+    /**
+     * Parse the remainder of a method or constructor from its parameter list
+     */
+    private parseMethodRest(
+        partial: Omit<Declaration, 'lastToken' | 'bodyOpen' | 'paramsOpen'>,
+        paramsOpen: number,
+        limit: number
+    ): Declaration | null {
+        const paramsClose = this.matching[paramsOpen];
+        if (paramsClose === -1 || paramsClose >= limit) {
+            return null;
+        }
+
+        // Skip array dimensions after the parameters, the throws clause and annotation defaults
+        let i = paramsClose + 1;
+        while (i < limit && this.tokens[i].text !== '{' && this.tokens[i].text !== ';') {
+            const text = this.tokens[i].text;
+            if (text === '(' || text === '[') {
+                i = this.matching[i] === -1 ? i + 1 : this.matching[i] + 1;
                 continue;
             }
+            if (text === '}') {
+                return null;
+            }
+            if (text === 'default') {
+                // Annotation type element with a default value, which may be an array initializer
+                return { ...partial, paramsOpen, lastToken: this.skipToSemicolon(i, limit), bodyOpen: -1 };
+            }
+            i++;
+        }
 
-            const method = this.createMethod(match, actualMethodStart, bodyEnd + 1, leadingContent, className);
-            methods.push(method);
-            lastMethodEnd = bodyEnd + 1;
-            regex.lastIndex = bodyEnd - searchOffset + 1;
+        if (i >= limit) {
+            return null;
         }
 
-        // Set original positions
-        methods.forEach((method, index) => {
-            method.originalPosition = index;
-        });
+        if (this.tokens[i].text === ';') {
+            return { ...partial, paramsOpen, lastToken: i, bodyOpen: -1 };
+        }
 
-        return methods;
+        const bodyClose = this.matching[i];
+        if (bodyClose === -1 || bodyClose >= limit) {
+            return null;
+        }
+        return { ...partial, paramsOpen, lastToken: bodyClose, bodyOpen: i };
     }
 
     /**
-     * Create regex pattern to match method declarations
+     * Check whether the token at index i starts a record declaration ('record' is a contextual keyword)
      */
-    private createMethodPattern(className: string): string {
-        // Match method modifiers, return type, name, and parameters
-        // Must start with either a modifier or the return type, not arbitrary text
-        const modifiers = '(?:(?:public|protected|private|static|final|abstract|synchronized|native|strictfp)\\s+)*';
-        const typeParams = '(?:<[^>]+>\\s+)?';
-        const returnType = '(?:[\\w\\[\\]<>,\\s\\.]+\\s+)?';
-        const methodName = `(${className}|\\w+)`;
-        const params = '\\s*\\([^)]*\\)';
-        const throwsClause = '(?:\\s+throws\\s+[\\w\\s,\\.]+)?';
-        const bodyOrSemi = '(?:\\s*\\{|\\s*;)';
-        
-        // Require method declaration to start at beginning of line (optionally with whitespace)
-        const lineStart = '(?:^|\\n)\\s*';
-        
-        return `${lineStart}${modifiers}${typeParams}${returnType}${methodName}${params}${throwsClause}${bodyOrSemi}`;
+    private isRecordKeyword(i: number): boolean {
+        return this.tokens[i]?.text === 'record' &&
+            this.tokens[i + 1]?.kind === TokenKind.Identifier &&
+            (this.tokens[i + 2]?.text === '(' || this.tokens[i + 2]?.text === '<');
     }
 
     /**
-     * Extract leading comments and annotations before a method
+     * Find the opening brace of a type body, skipping type parameters, record components,
+     * extends/implements/permits clauses and annotations with arguments
      */
-    private extractLeadingContent(methodStart: number, searchStart: number, skipRegions: SkipRegion[]): string {
-        // Find the effective search start, skipping any skip regions
-        let effectiveStart = searchStart;
-        for (const region of skipRegions) {
-            if (region.start >= searchStart && region.end <= methodStart) {
-                // This skip region is between searchStart and methodStart
-                effectiveStart = Math.max(effectiveStart, region.end);
+    private findTypeBodyOpen(start: number, limit: number): number {
+        for (let i = start; i < limit; i++) {
+            const text = this.tokens[i].text;
+            if (text === '{') {
+                return i;
+            }
+            if (text === ';' || text === '}') {
+                return -1;
+            }
+            if (text === '(' && this.matching[i] !== -1) {
+                i = this.matching[i];
             }
         }
+        return -1;
+    }
 
-        // Look backwards from methodStart to find comments and annotations
-        const textBefore = this.source.substring(effectiveStart, methodStart);
-        
-        // Find the last newline before annotations/comments
-        const lines = textBefore.split('\n');
-        const leadingLines: string[] = [];
-        
-        for (let i = lines.length - 1; i >= 0; i--) {
-            const line = lines[i].trim();
-            if (line.startsWith('*') || line.startsWith('/*') || line.startsWith('//') || 
-                line.startsWith('@') || line === '' || line.startsWith('*/')) {
-                leadingLines.unshift(lines[i]);
-            } else {
+    /**
+     * Skip an annotation starting at '@' and return the index after it
+     */
+    private skipAnnotation(at: number): number {
+        let i = at + 1;
+        while (this.tokens[i]?.kind === TokenKind.Identifier || this.tokens[i]?.kind === TokenKind.Keyword) {
+            i++;
+            if (this.tokens[i]?.text !== '.') {
                 break;
             }
+            i++;
+        }
+        if (this.tokens[i]?.text === '(' && this.matching[i] !== -1) {
+            i = this.matching[i] + 1;
         }
-        
-        return leadingLines.join('\n');
+        return i;
     }
 
     /**
-     * Find the matching closing brace for an opening brace
+     * Skip a balanced run of angle brackets starting at '<' and return the index after it
      */
-    private findMatchingBrace(openPos: number): number {
+    private skipAngles(at: number): number {
         let depth = 0;
-        let inString = false;
-        let inChar = false;
-        let inLineComment = false;
-        let inBlockComment = false;
-        let prevChar = '';
-
-        for (let i = openPos; i < this.source.length; i++) {
-            const char = this.source[i];
-            const nextChar = this.source[i + 1] || '';
-
-            // Handle comments
-            if (!inString && !inChar) {
-                if (!inLineComment && !inBlockComment && char === '/' && nextChar === '/') {
-                    inLineComment = true;
-                    i++;
-                    continue;
-                }
-                if (!inLineComment && !inBlockComment && char === '/' && nextChar === '*') {
-                    inBlockComment = true;
-                    i++;
-                    continue;
-                }
-                if (inLineComment && char === '\n') {
-                    inLineComment = false;
-                    continue;
-                }
-                if (inBlockComment && char === '*' && nextChar === '/') {
-                    inBlockComment = false;
-                    i++;
-                    continue;
+        for (let i = at; i < this.tokens.length; i++) {
+            const text = this.tokens[i].text;
+            if (text === '<') {
+                depth++;
+            } else if (text === '>') {
+                depth--;
+                if (depth === 0) {
+                    return i + 1;
                 }
+            } else if (text === '(' || text === '{' || text === ';') {
+                // Not a type argument list after all
+                return at + 1;
             }
+        }
+        return at + 1;
+    }
 
-            if (inLineComment || inBlockComment) {
-                prevChar = char;
+    /**
+     * Return the index of the next ';' at the current nesting level (or limit - 1),
+     * jumping over bracketed regions such as array initializers and lambda bodies
+     */
+    private skipToSemicolon(start: number, limit: number = this.tokens.length): number {
+        let i = start;
+        while (i < limit) {
+            const text = this.tokens[i].text;
+            if (text === ';') {
+                return i;
+            }
+            if ((text === '(' || text === '[' || text === '{') && this.matching[i] !== -1) {
+                i = this.matching[i] + 1;
                 continue;
             }
+            if (text === '}') {
+                return i - 1;
+            }
+            i++;
+        }
+        return limit - 1;
+    }
 
-            // Handle strings and chars
-            if (char === '"' && prevChar !== '\\' && !inChar) {
-                inString = !inString;
+    /**
+     * Split the member declarations of the class into methods and other members
+     */
+    private extractMembers(type: TypeBounds, declarations: Declaration[]): { methods: JavaMethod[]; members: JavaMember[] } {
+        const methods: JavaMethod[] = [];
+        const members: JavaMember[] = [];
+        const starts = declarations.map(declaration => this.lineStartIfIndented(this.tokens[declaration.firstToken].start));
+        let previousEnd = this.tokens[type.bodyOpen].end;
+        let sortingOff = false;
+
+        declarations.forEach((declaration, index) => {
+            const startPos = starts[index];
+            const leadingStart = this.findLeadingStart(previousEnd, startPos);
+            const ownStart = this.findOwnStart(leadingStart, startPos);
+            const endPos = this.findTrailingEnd(this.tokens[declaration.lastToken].end, index + 1 < starts.length ? starts[index + 1] : -1);
+            previousEnd = endPos;
+
+            // Sorter markers in the comments above the declaration; the last off/on marker wins
+            const markers = this.findSorterMarkers(this.source.substring(leadingStart, startPos));
+            const regionMarkers = markers.filter(marker => marker !== 'pin');
+            if (regionMarkers.length > 0) {
+                sortingOff = regionMarkers[regionMarkers.length - 1] === 'off';
             }
-            if (char === "'" && prevChar !== '\\' && !inString) {
-                inChar = !inChar;
+
+            if (declaration.kind === 'method' || declaration.kind === 'constructor') {
+                const method = this.createMethod(declaration, type, leadingStart, ownStart, startPos, endPos);
+                method.pinned = sortingOff || markers.includes('pin');
+                methods.push(method);
+            } else {
+                const member = this.createMember(declaration, type, leadingStart, ownStart, startPos, endPos);
+                member.pinned = sortingOff || markers.includes('pin');
+                members.push(member);
             }
+        });
 
-            if (!inString && !inChar) {
-                if (char === '{') {
-                    depth++;
-                } else if (char === '}') {
-                    depth--;
-                    if (depth === 0) {
-                        return i;
-                    }
-                }
+        // Set original positions
+        methods.forEach((method, index) => {
+            method.originalPosition = index;
+        });
+        members.forEach((member, index) => {
+            member.originalPosition = index;
+        });
+
+        return { methods, members };
+    }
+
+    /**
+     * Find the '@sorter:off', '@sorter:on' and '@sorter:pin' markers in leading content, in order
+     */
+    private findSorterMarkers(leadingContent: string): string[] {
+        return Array.from(leadingContent.matchAll(new RegExp(SORTER_MARKER, 'g')), match => match[1]);
+    }
+
+    /**
+     * Find where the text owned by a declaration begins in its leading content: the comments
+     * directly above it, without a blank line in between, and its Javadoc even when a blank line
+     * separates them. Section headers, sorter markers and comments separated by blank lines
+     * stay in place.
+     */
+    private findOwnStart(leadingStart: number, startPos: number): number {
+        const comments = this.commentsBetween(leadingStart, startPos);
+        let ownStart = startPos;
+        let hasJavadoc = false;
+        for (let i = comments.length - 1; i >= 0; i--) {
+            const comment = comments[i];
+            const gap = this.source.substring(comment.end, ownStart);
+            const attached = this.lineBreaks(gap) < 2 || (this.isJavadoc(comment) && !hasJavadoc);
+            if (!/^\s*$/.test(gap) || !attached || SECTION_HEADER.test(comment.text) || SORTER_MARKER.test(comment.text)) {
+                break;
             }
+            ownStart = this.lineStartIfIndented(comment.start);
+            hasJavadoc = hasJavadoc || this.isJavadoc(comment);
+        }
+        return ownStart;
+    }
 
-            prevChar = char;
+    /**
+     * Find where a declaration ends, including the comments it owns after its last token:
+     * comments starting on the same line, and comment lines directly below it that a blank line
+     * separates from what follows. Javadoc, section headers and sorter markers below it
+     * belong to what follows; so does everything after the last declaration (nextStart -1).
+     */
+    private findTrailingEnd(end: number, nextStart: number): number {
+        const comments = this.commentsBetween(end, nextStart === -1 ? this.source.length : nextStart);
+        let pos = end;
+        let i = 0;
+        while (i < comments.length && /^[ \t]*$/.test(this.source.substring(pos, comments[i].start))) {
+            pos = comments[i++].end;
+        }
+        if (nextStart === -1) {
+            return pos;
         }
 
-        return -1;
+        let chainEnd = pos;
+        while (i < comments.length && /^[ \t]*(\r\n|\r|\n)[ \t]*$/.test(this.source.substring(chainEnd, comments[i].start))) {
+            const comment = comments[i];
+            if (this.isJavadoc(comment) || SECTION_HEADER.test(comment.text) || SORTER_MARKER.test(comment.text)) {
+                break;
+            }
+            chainEnd = comment.end;
+            i++;
+        }
+        const following = i < comments.length ? comments[i].start : nextStart;
+        return this.lineBreaks(this.source.substring(chainEnd, following)) >= 2 ? chainEnd : pos;
     }
 
     /**
-     * Create a JavaMethod object from a regex match
+     * Get the comments lying completely inside [start, end)
+     */
+    private commentsBetween(start: number, end: number): Token[] {
+        let low = 0;
+        let high = this.comments.length;
+        while (low < high) {
+            const middle = (low + high) >> 1;
+            if (this.comments[middle].start < start) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        const result: Token[] = [];
+        for (let i = low; i < this.comments.length && this.comments[i].end <= end; i++) {
+            result.push(this.comments[i]);
+        }
+        return result;
+    }
+
+    private isJavadoc(comment: Token): boolean {
+        return comment.text.startsWith('/**') && comment.text !== '/**/';
+    }
+
+    private lineBreaks(text: string): number {
+        return (text.match(/\r\n|\r|\n/g) ?? []).length;
+    }
+
+    /**
+     * Find where the leading content of a declaration begins: the first comment (or any other
+     * non-whitespace text) after the previous member, so that nothing between members is lost
+     */
+    private findLeadingStart(previousEnd: number, declarationStart: number): number {
+        for (let i = previousEnd; i < declarationStart; i++) {
+            if (!/\s/.test(this.source[i])) {
+                return this.lineStartIfIndented(i);
+            }
+        }
+        return declarationStart;
+    }
+
+    /**
+     * Return the start of the line containing pos if only whitespace precedes pos on it, else pos
+     */
+    private lineStartIfIndented(pos: number): number {
+        let i = pos;
+        while (i > 0 && (this.source[i - 1] === ' ' || this.source[i - 1] === '\t')) {
+            i--;
+        }
+        return this.isLineStart(i) ? i : pos;
+    }
+
+    private isLineStart(pos: number): boolean {
+        return pos === 0 || this.source[pos - 1] === '\n' || this.source[pos - 1] === '\r';
+    }
+
+    /**
+     * Create a JavaMethod object from a method or constructor declaration
      */
     private createMethod(
-        match: RegExpExecArray,
+        declaration: Declaration,
+        type: TypeBounds,
+        leadingStart: number,
+        ownStart: number,
         startPos: number,
-        endPos: number,
-        leadingContent: string,
-        className: string
+        endPos: number
     ): JavaMethod {
-        const fullText = this.source.substring(startPos, endPos);
-        const declaration = match[0];
-        const name = match[1];
-        const isConstructor = name === className;
-        
+        // A compact record constructor has no parameter list; its parameters are the record components
+        const paramsOpen = declaration.paramsOpen !== -1 ? declaration.paramsOpen : type.componentsOpen;
+        const parameters = this.extractParameters(paramsOpen);
+        const parameterTypes = parameters.map(p => p.type);
+        // An unclosed parameter list, e.g. a record header being typed, has no parameter text
+        const paramsClose = paramsOpen === -1 ? -1 : this.matching[paramsOpen];
+        const parameterText = paramsClose === -1 ? '' : this.source.substring(
+            this.tokens[paramsOpen].end,
+            this.tokens[paramsClose].start
+        );
+        const hasBody = declaration.bodyOpen !== -1;
+        const invocations = hasBody ? this.extractInvocations(declaration.bodyOpen, declaration.lastToken, type.name) : [];
+        const name = declaration.name;
+        // The name precedes the parameter list; a compact constructor's name precedes its body
+        let nameToken = declaration.paramsOpen - 1;
+        if (declaration.paramsOpen === -1) {
+            nameToken = declaration.bodyOpen - 1;
+            while (nameToken > declaration.firstToken && this.tokens[nameToken].text !== name) {
+                nameToken--;
+            }
+        }
+        const isRecordAccessor = type.kind === 'record' && parameters.length === 0 && declaration.returnType !== '' &&
+            this.extractParameters(type.componentsOpen).some(component => component.name === name);
+
         return {
-            fullText,
+            fullText: this.source.substring(startPos, endPos),
             name,
-            signature: this.extractSignature(declaration),
-            accessLevel: this.extractAccessLevel(declaration),
-            isConstructor,
-            isStatic: declaration.includes('static '),
+            nameRange: { start: this.tokens[nameToken].start, end: this.tokens[nameToken].end },
+            signature: `${name}(${this.normalizeWhitespace(parameterText)})`,
+            accessLevel: this.extractAccessLevel(declaration, type),
+            isConstructor: declaration.kind === 'constructor' && name === type.name,
+            isStatic: declaration.modifiers.includes('static'),
             originalPosition: 0,
-            leadingContent,
-            bodyContent: this.source.substring(this.source.indexOf('{', startPos), endPos),
-            calledMethods: this.extractCalledMethods(this.source.substring(startPos, endPos)),
-            isGetter: this.isGetterMethod(name, declaration),
-            isSetter: this.isSetterMethod(name, declaration),
+            leadingContent: this.source.substring(leadingStart, startPos),
+            bodyContent: hasBody ? this.source.substring(this.tokens[declaration.bodyOpen].start, this.tokens[declaration.lastToken].end) : '',
+            calledMethods: Array.from(new Set(invocations.map(invocation => invocation.name))),
+            invocations,
+            isGetter: isRecordAccessor || this.isGetterMethod(name, declaration.returnType, parameterTypes),
+            isSetter: this.isSetterMethod(name, declaration.returnType),
             startPos,
-            endPos
+            endPos,
+            modifiers: declaration.modifiers,
+            annotations: declaration.annotations,
+            returnType: declaration.returnType,
+            parameterTypes,
+            pinned: false,
+            ownStart
         };
     }
 
     /**
-     * Create a JavaMethod object from an abstract method declaration
+     * Create a JavaMember object from a field, initializer or nested type declaration
      */
-    private createMethodFromAbstract(
-        match: RegExpExecArray,
+    private createMember(
+        declaration: Declaration,
+        type: TypeBounds,
+        leadingStart: number,
+        ownStart: number,
         startPos: number,
-        endPos: number,
-        leadingContent: string,
-        className: string
-    ): JavaMethod {
-        const fullText = this.source.substring(startPos, endPos);
-        const declaration = match[0];
-        const name = match[1];
-        const isConstructor = name === className;
-        
+        endPos: number
+    ): JavaMember {
+        let kind: MemberKind;
+        if (declaration.kind === 'initializer') {
+            kind = declaration.modifiers.includes('static') ? 'staticInitializer' : 'initializer';
+        } else if (declaration.kind === 'type') {
+            kind = 'type';
+        } else if (declaration.kind === 'enumConstants') {
+            kind = 'enumConstants';
+        } else {
+            kind = 'field';
+        }
+        const declarators = kind === 'field' && declaration.nameToken !== undefined
+            ? this.extractDeclarators(declaration.nameToken, declaration.lastToken)
+            : { variableNames: [], references: [] };
+
         return {
-            fullText,
-            name,
-            signature: this.extractSignature(declaration),
-            accessLevel: this.extractAccessLevel(declaration),
-            isConstructor,
-            isStatic: declaration.includes('static '),
+            kind,
+            name: declaration.name,
+            fullText: this.source.substring(startPos, endPos),
             originalPosition: 0,
-            leadingContent,
-            bodyContent: '',
-            calledMethods: [],
-            isGetter: this.isGetterMethod(name, declaration),
-            isSetter: this.isSetterMethod(name, declaration),
+            leadingContent: this.source.substring(leadingStart, startPos),
             startPos,
-            endPos
+            endPos,
+            ownStart,
+            accessLevel: this.extractAccessLevel(declaration, type),
+            modifiers: declaration.modifiers,
+            ...declarators,
+            pinned: false
         };
     }
 
     /**
-     * Extract method signature from declaration
+     * Extract the variable names of a field declaration, starting at the first name, and the
+     * identifiers its initializers use (not counting member names after a '.', except after 'this.')
+     */
+    private extractDeclarators(nameToken: number, lastToken: number): { variableNames: string[]; references: string[] } {
+        const variableNames: string[] = [];
+        const references = new Set<string>();
+        let i = nameToken;
+        while (i < lastToken && this.tokens[i].kind === TokenKind.Identifier) {
+            variableNames.push(this.tokens[i++].text);
+            while (this.tokens[i]?.text === '[' && this.matching[i] !== -1) {
+                i = this.matching[i] + 1;
+            }
+            if (this.tokens[i]?.text === '=') {
+                // The initializer ends at a ',' outside brackets and type arguments
+                let depth = 0;
+                for (i++; i < lastToken; i++) {
+                    const token = this.tokens[i];
+                    if (depth === 0 && token.text === ',') {
+                        break;
+                    }
+                    if (token.text === '<' && this.tokens[i - 1]?.kind === TokenKind.Identifier) {
+                        const end = this.skipAngles(i);
+                        if (end > i + 1) {
+                            i = end - 1;
+                            continue;
+                        }
+                    }
+                    if (token.text === '(' || token.text === '[' || token.text === '{') {
+                        depth++;
+                    } else if (token.text === ')' || token.text === ']' || token.text === '}') {
+                        depth--;
+                    } else if (token.kind === TokenKind.Identifier &&
+                        (this.tokens[i - 1]?.text !== '.' || this.tokens[i - 2]?.text === 'this')) {
+                        references.add(token.text);
+                    }
+                }
+            }
+            if (this.tokens[i]?.text !== ',') {
+                break;
+            }
+            i++;
+        }
+        return { variableNames, references: Array.from(references) };
+    }
+
+    /**
+     * Extract the declared parameters (or record components) of the list opened at paramsOpen
+     */
+    private extractParameters(paramsOpen: number): Parameter[] {
+        const parameters: Parameter[] = [];
+        const paramsClose = paramsOpen === -1 ? -1 : this.matching[paramsOpen];
+        if (paramsClose === -1) {
+            return parameters;
+        }
+
+        let segmentStart = paramsOpen + 1;
+        let angleDepth = 0;
+
+        for (let i = paramsOpen + 1; i <= paramsClose; i++) {
+            const text = this.tokens[i].text;
+            if (i !== paramsClose && text !== ',') {
+                if (text === '<') {
+                    angleDepth++;
+                } else if (text === '>') {
+                    angleDepth--;
+                } else if ((text === '(' || text === '[') && this.matching[i] !== -1 && this.matching[i] < paramsClose) {
+                    i = this.matching[i];
+                }
+                continue;
+            }
+            if (angleDepth > 0) {
+                continue;
+            }
+            if (i > segmentStart) {
+                parameters.push(this.parameter(segmentStart, i));
+            }
+            segmentStart = i + 1;
+        }
+
+        return parameters;
+    }
+
+    /**
+     * Get the type and name of a single parameter spanning tokens [start, end)
      */
-    private extractSignature(declaration: string): string {
-        const match = declaration.match(/(\w+)\s*\([^)]*\)/);
-        return match ? match[0] : '';
+    private parameter(start: number, end: number): Parameter {
+        let i = start;
+        while (i < end && (this.tokens[i].text === 'final' || this.tokens[i].text === '@')) {
+            i = this.tokens[i].text === '@' ? this.skipAnnotation(i) : i + 1;
+        }
+        // The last identifier is the parameter name, possibly followed by array dimensions
+        let nameIndex = end - 1;
+        while (nameIndex > i && (this.tokens[nameIndex].text === ']' || this.tokens[nameIndex].text === '[')) {
+            nameIndex--;
+        }
+        const dims = this.source.substring(this.tokens[nameIndex].end, this.tokens[end - 1].end).replace(/\s+/g, '');
+        if (nameIndex <= i) {
+            return { type: this.normalizeWhitespace(this.source.substring(this.tokens[i].start, this.tokens[end - 1].end)), name: '' };
+        }
+        return {
+            type: this.normalizeWhitespace(this.source.substring(this.tokens[i].start, this.tokens[nameIndex - 1].end)) + dims,
+            name: this.tokens[nameIndex].text
+        };
     }
 
     /**
-     * Extract access level from method declaration
+     * Extract access level from method modifiers, applying the implicit access of the enclosing type:
+     * interface and annotation members are public, enum constructors are private
      */
-    private extractAccessLevel(declaration: string): AccessLevel {
-        if (declaration.includes('public ')) {
+    private extractAccessLevel(declaration: Declaration, type: TypeBounds): AccessLevel {
+        const modifiers = declaration.modifiers;
+        if (modifiers.includes('public')) {
             return AccessLevel.PUBLIC;
         }
-        if (declaration.includes('protected ')) {
+        if (modifiers.includes('protected')) {
             return AccessLevel.PROTECTED;
         }
-        if (declaration.includes('private ')) {
+        if (modifiers.includes('private')) {
+            return AccessLevel.PRIVATE;
+        }
+        if (type.kind === 'interface' || type.kind === 'annotation') {
+            return AccessLevel.PUBLIC;
+        }
+        if (type.kind === 'enum' && declaration.kind === 'constructor') {
             return AccessLevel.PRIVATE;
         }
         return AccessLevel.PACKAGE;
     }
 
     /**
-     * Extract names of methods called within this method
+     * Extract the method invocations within a method body.
+     * Unqualified calls, calls through 'this' or the class name, and method references count;
+     * calls on other objects and constructor invocations do not.
      */
-    private extractCalledMethods(methodBody: string): string[] {
-        const called: Set<string> = new Set();
-        // Match method calls: methodName( or this.methodName(
-        const callPattern = /(?:this\.)?(\w+)\s*\(/g;
-        let match;
-        
-        while ((match = callPattern.exec(methodBody)) !== null) {
-            const methodName = match[1];
-            // Exclude common keywords and the method itself
-            if (!['if', 'for', 'while', 'switch', 'catch', 'synchronized', 'new', 'return'].includes(methodName)) {
-                called.add(methodName);
+    private extractInvocations(bodyOpen: number, bodyClose: number, className: string): MethodInvocation[] {
+        const invocations: MethodInvocation[] = [];
+
+        for (let i = bodyOpen + 1; i < bodyClose; i++) {
+            const token = this.tokens[i];
+            if (token.kind !== TokenKind.Identifier) {
+                continue;
+            }
+
+            const previous = this.tokens[i - 1].text;
+            const isSelfQualifier = (index: number) =>
+                (this.tokens[index]?.text === 'this' || this.tokens[index]?.text === className) &&
+                this.tokens[index - 1]?.text !== '.';
+
+            if (this.tokens[i + 1].text === '(') {
+                if (previous === 'new' || (previous === '.' && !isSelfQualifier(i - 2))) {
+                    continue;
+                }
+                const argumentTypes = this.extractArgumentTypes(i + 1);
+                invocations.push({ name: token.text, argumentCount: argumentTypes.length, argumentTypes });
+            } else if (previous === '::' && isSelfQualifier(i - 2)) {
+                // The arity of a method reference depends on its target type, which is unknown here
+                invocations.push({ name: token.text, argumentCount: -1, argumentTypes: [] });
             }
         }
-        
-        return Array.from(called);
+
+        return invocations;
+    }
+
+    /**
+     * Get the literal type of each argument of the call whose argument list opens at argsOpen,
+     * or null for arguments that are not literals
+     */
+    private extractArgumentTypes(argsOpen: number): (string | null)[] {
+        const argsClose = this.matching[argsOpen];
+        if (argsClose === -1 || argsClose === argsOpen + 1) {
+            return [];
+        }
+
+        const types: (string | null)[] = [];
+        let segmentStart = argsOpen + 1;
+        for (let i = argsOpen + 1; i <= argsClose; i++) {
+            const text = this.tokens[i].text;
+            if ((text === '(' || text === '[' || text === '{') && this.matching[i] !== -1 && this.matching[i] < argsClose) {
+                i = this.matching[i];
+                continue;
+            }
+            if (text === ',' || i === argsClose) {
+                types.push(this.literalType(segmentStart, i));
+                segmentStart = i + 1;
+            }
+        }
+        return types;
+    }
+
+    /**
+     * Get the type of the expression in tokens [start, end) if it is a single (possibly negated) literal
+     */
+    private literalType(start: number, end: number): string | null {
+        const first = this.tokens[start];
+        const isNegated = first?.text === '-' && end - start === 2;
+        if (!first || (end - start !== 1 && !isNegated)) {
+            return null;
+        }
+
+        const token = isNegated ? this.tokens[start + 1] : first;
+        const text = token.text;
+        if (token.kind === TokenKind.Keyword) {
+            return text === 'true' || text === 'false' ? 'boolean' : null;
+        }
+        if (token.kind !== TokenKind.Literal) {
+            return null;
+        }
+        if (text.startsWith('"')) {
+            return 'String';
+        }
+        if (text.startsWith('\'')) {
+            return 'char';
+        }
+        if (/[lL]$/.test(text)) {
+            return 'long';
+        }
+        if (/^0[xXbB]/.test(text)) {
+            return /[pP]/.test(text) ? 'double' : 'int';
+        }
+        if (/[fF]$/.test(text)) {
+            return 'float';
+        }
+        if (/[dD]$/.test(text) || /[.eE]/.test(text)) {
+            return 'double';
+        }
+        return 'int';
     }
 
     /**
      * Check if method is a getter
      */
-    private isGetterMethod(name: string, declaration: string): boolean {
-        return (name.startsWith('get') || name.startsWith('is')) && 
-               declaration.includes('()') && 
-               !declaration.includes('void');
+    private isGetterMethod(name: string, returnType: string, parameterTypes: string[]): boolean {
+        return (name.startsWith('get') || name.startsWith('is')) &&
+               parameterTypes.length === 0 &&
+               returnType !== '' && returnType !== 'void';
     }
 
     /**
      * Check if method is a setter
      */
-    private isSetterMethod(name: string, declaration: string): boolean {
-        return name.startsWith('set') && declaration.includes('void');
+    private isSetterMethod(name: string, returnType: string): boolean {
+        return name.startsWith('set') && returnType === 'void';
+    }
+
+    private normalizeWhitespace(text: string): string {
+        return text.replace(/\s+/g, ' ').trim();
     }
 
     /**
-     * Extract content before and after methods
+     * Extract the body content before the first member and after the last member
      */
-    private extractNonMethodContent(methods: JavaMethod[], classBodyBounds: { start: number; end: number; bodyStart: number }): { preMethodsContent: string; postMethodsContent: string } {
-        if (methods.length === 0) {
-            return { preMethodsContent: this.source, postMethodsContent: '' };
-        }
-
-        // Find the start of the first method (including its leading content)
-        let firstMethodStart = methods[0].startPos;
-        const leadingContent = methods[0].leadingContent;
-        if (leadingContent && leadingContent.trim()) {
-            const leadingIndex = this.source.lastIndexOf(leadingContent.trim(), firstMethodStart);
-            if (leadingIndex !== -1 && leadingIndex > classBodyBounds.bodyStart) {
-                firstMethodStart = leadingIndex;
-            }
+    private extractNonMethodContent(
+        members: (JavaMethod | JavaMember)[],
+        bodyStart: number,
+        bodyEnd: number
+    ): { preMethodsContent: string; postMethodsContent: string } {
+        if (members.length === 0) {
+            return { preMethodsContent: this.source.substring(bodyStart, bodyEnd), postMethodsContent: '' };
         }
 
-        const lastMethodEnd = methods[methods.length - 1].endPos;
+        const first = members.reduce((a, b) => (b.startPos < a.startPos ? b : a));
+        const last = members.reduce((a, b) => (b.endPos > a.endPos ? b : a));
 
         return {
-            preMethodsContent: this.source.substring(0, firstMethodStart),
-            postMethodsContent: this.source.substring(lastMethodEnd)
+            preMethodsContent: this.source.substring(bodyStart, first.startPos - first.leadingContent.length),
+            postMethodsContent: this.source.substring(last.endPos, bodyEnd)
         };
     }
 }
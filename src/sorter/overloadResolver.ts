@@ -0,0 +1,135 @@
+import { JavaMethod, MethodInvocation } from './types';
+
+const PRIMITIVE_WIDENING: Record<string, string[]> = {
+    'byte': ['byte', 'short', 'int', 'long', 'float', 'double'],
+    'short': ['short', 'int', 'long', 'float', 'double'],
+    'char': ['char', 'int', 'long', 'float', 'double'],
+    'int': ['int', 'long', 'float', 'double'],
+    'long': ['long', 'float', 'double'],
+    'float': ['float', 'double'],
+    'double': ['double'],
+    'boolean': ['boolean']
+};
+
+const BOXED_TYPES: Record<string, string> = {
+    'byte': 'Byte',
+    'short': 'Short',
+    'char': 'Character',
+    'int': 'Integer',
+    'long': 'Long',
+    'float': 'Float',
+    'double': 'Double',
+    'boolean': 'Boolean'
+};
+
+/** Reference types that every literal type can be assigned to */
+const UNIVERSAL_SUPERTYPES = ['Object', 'Serializable', 'Comparable'];
+
+/**
+ * Resolves method invocations to the overloads of a class they most likely target.
+ *
+ * Candidates are narrowed by arity (taking varargs into account) and then, where the
+ * arguments are literals, by whether the literal types are assignable to the parameter types.
+ * When narrowing by type would exclude every candidate, all candidates of the right arity are kept.
+ */
+export class OverloadResolver {
+    private methodsByName = new Map<string, JavaMethod[]>();
+
+    constructor(methods: JavaMethod[]) {
+        for (const method of methods) {
+            const overloads = this.methodsByName.get(method.name) ?? [];
+            overloads.push(method);
+            this.methodsByName.set(method.name, overloads);
+        }
+    }
+
+    /**
+     * Get the methods an invocation may target
+     */
+    resolve(invocation: MethodInvocation): JavaMethod[] {
+        const overloads = this.methodsByName.get(invocation.name) ?? [];
+        if (invocation.argumentCount < 0) {
+            return overloads;
+        }
+
+        const byArity = overloads.filter(m => this.acceptsArgumentCount(m, invocation.argumentCount));
+        if (byArity.length <= 1) {
+            return byArity;
+        }
+
+        const byType = byArity.filter(m => this.acceptsArgumentTypes(m, invocation.argumentTypes));
+        return byType.length > 0 ? byType : byArity;
+    }
+
+    /**
+     * Check whether a method can be called with the given number of arguments
+     */
+    private acceptsArgumentCount(method: JavaMethod, count: number): boolean {
+        const params = method.parameterTypes;
+        if (params.length > 0 && this.isVarargs(params[params.length - 1])) {
+            return count >= params.length - 1;
+        }
+        return count === params.length;
+    }
+
+    /**
+     * Check whether every literal argument is assignable to the corresponding parameter
+     */
+    private acceptsArgumentTypes(method: JavaMethod, argumentTypes: (string | null)[]): boolean {
+        const params = method.parameterTypes;
+        return argumentTypes.every((argumentType, index) => {
+            if (argumentType === null) {
+                return true;
+            }
+            const lastIndex = params.length - 1;
+            let paramType = params[Math.min(index, lastIndex)];
+            if (this.isVarargs(paramType) && index >= lastIndex) {
+                paramType = paramType.slice(0, -3);
+            }
+            return this.isAssignable(argumentType, this.simpleTypeName(paramType));
+        });
+    }
+
+    /**
+     * Check whether a literal of the given type can be passed to a parameter of the given type
+     */
+    private isAssignable(literalType: string, paramType: string): boolean {
+        if (this.isTypeVariable(paramType) || UNIVERSAL_SUPERTYPES.includes(paramType)) {
+            return true;
+        }
+        if (literalType === 'String') {
+            return paramType === 'String' || paramType === 'CharSequence';
+        }
+        if (PRIMITIVE_WIDENING[literalType]?.includes(paramType)) {
+            return true;
+        }
+        const boxed = BOXED_TYPES[literalType];
+        return paramType === boxed || (paramType === 'Number' && literalType !== 'boolean' && literalType !== 'char');
+    }
+
+    /**
+     * Strip type arguments, annotations, 'final' and package qualifiers from a parameter type
+     */
+    private simpleTypeName(type: string): string {
+        let result = type.replace(/@[\w.]+(\([^)]*\))?\s*/g, '').replace(/\bfinal\s+/g, '');
+        // Remove nested type arguments from the inside out
+        let previous = '';
+        while (previous !== result) {
+            previous = result;
+            result = result.replace(/<[^<>]*>/g, '');
+        }
+        result = result.trim();
+        return result.substring(result.lastIndexOf('.') + 1);
+    }
+
+    /**
+     * Type variables are conventionally a single upper-case letter, optionally followed by a digit
+     */
+    private isTypeVariable(type: string): boolean {
+        return /^[A-Z][0-9]?$/.test(type);
+    }
+
+    private isVarargs(type: string): boolean {
+        return type.endsWith('...');
+    }
+}
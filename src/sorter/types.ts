@@ -18,8 +18,98 @@ export interface SortingOptions {
     separateConstructors: boolean;
     /** Apply lexical (alphabetical) ordering as a secondary sort */
     applyLexicalOrdering: boolean;
+    /** Where fields, nested types and initializers go relative to the sorted methods (default: 'anchored') */
+    memberPlacement?: MemberPlacement;
+    /**
+     * Order of the member categories in the sorted class, overriding memberPlacement when given.
+     * Categories that are not listed follow in their default order (default: none)
+     */
+    memberLayout?: MemberCategory[];
+    /** Deepest level of nested types to sort; 0 sorts top-level types only, negative means no limit (default: -1) */
+    maxNestingDepth?: number;
+    /**
+     * Blank lines between methods that are no longer next to each other; negative keeps the spacing
+     * that prevails between the methods of the class (default: -1)
+     */
+    blankLinesBetweenMethods?: number;
+    /**
+     * Ordered method categories. A method belongs to the first rule it matches; methods matching
+     * no rule follow all categories, grouped as usual (default: no rules)
+     */
+    orderRules?: OrderRule[];
+    /**
+     * Header comments written above the first method of each group, e.g. '// ===== Constructors ====='.
+     * Groups without a header get none; headers written before are replaced when sorting again (default: none)
+     */
+    sectionHeaders?: Partial<Record<SectionName, string>>;
+    /**
+     * Sort fields too: constants (static final), static fields, then instance fields, each by access level
+     * (if separateByAccessLevel). Fields whose initializers refer to each other keep their relative order,
+     * and no field moves past an initializer block (default: false)
+     */
+    sortFields?: boolean;
 }
 
+/**
+ * Name of a group of methods that have no order rule, for the sectionHeaders option.
+ * Static methods form one section; 'methods' holds the other methods when they are not separated by access level.
+ */
+export type SectionName =
+    | 'constructors' | 'staticMethods' | 'publicMethods' | 'protectedMethods' | 'packagePrivateMethods' | 'privateMethods' | 'methods';
+
+/**
+ * A method category of the orderRules setting. Every condition that is given must hold.
+ */
+export interface OrderRule {
+    /** Method kind; 'method' matches every method that is not a constructor */
+    kind?: MethodKind;
+    /**
+     * Modifiers the method must have, or must not have when prefixed with '!'.
+     * Access levels ('public', 'protected', 'package-private', 'private') take implicit access into account
+     */
+    modifiers?: string[];
+    /** Annotations of which the method must have at least one, by simple name (e.g. 'Test') */
+    annotations?: string[];
+    /** Regular expression the whole method name must match */
+    name?: string;
+    /** Regular expression the whole return type must match */
+    returnType?: string;
+    /**
+     * Order of the methods within the category (default: 'invocation' when respectBeforeAfterRelation
+     * is on, otherwise 'lexical' when applyLexicalOrdering is on, otherwise 'original')
+     */
+    sortBy?: RuleSortKey;
+    /** Header comment written above the first method of the category, like the sectionHeaders option */
+    header?: string;
+}
+
+/**
+ * Kind of method matched by an order rule
+ */
+export type MethodKind = 'constructor' | 'method' | 'getter' | 'setter';
+
+/**
+ * Order of the methods within an order rule category:
+ * - 'invocation': callers before callees, using the configured sorting strategy
+ * - 'lexical': alphabetical by name
+ * - 'original': original position
+ */
+export type RuleSortKey = 'invocation' | 'lexical' | 'original';
+
+/**
+ * Placement of non-method members in the sorted output:
+ * - 'anchored': every member keeps its original slot and methods are sorted around it
+ * - 'beforeMethods': members are moved in front of all methods, in their original order
+ * - 'afterMethods': members are moved behind all methods, in their original order
+ */
+export type MemberPlacement = 'anchored' | 'beforeMethods' | 'afterMethods';
+
+/**
+ * Category of members for the memberLayout option. 'methods' includes constructors;
+ * the fields of interfaces and annotation types are static fields.
+ */
+export type MemberCategory = 'staticFields' | 'staticInitializers' | 'instanceFields' | 'instanceInitializers' | 'methods' | 'types';
+
 /**
  * Access level for Java members
  */
@@ -30,15 +120,29 @@ export enum AccessLevel {
     PRIVATE = 3
 }
 
+/**
+ * A method invocation found in a method body
+ */
+export interface MethodInvocation {
+    /** Invoked method name */
+    name: string;
+    /** Number of arguments, or -1 when unknown (method references) */
+    argumentCount: number;
+    /** Type of each argument that is a literal (e.g. 'int', 'String'), null for other arguments */
+    argumentTypes: (string | null)[];
+}
+
 /**
  * Represents a parsed Java method
  */
 export interface JavaMethod {
-    /** Full text of the method including comments and annotations */
+    /** Full text of the method declaration including annotations */
     fullText: string;
     /** Method name */
     name: string;
-    /** Method signature (name + parameters) */
+    /** Source range of the name in the declaration */
+    nameRange: TextRange;
+    /** Method signature (name + parameters), unique among the methods of a class */
     signature: string;
     /** Access level */
     accessLevel: AccessLevel;
@@ -48,32 +152,147 @@ export interface JavaMethod {
     isStatic: boolean;
     /** Original position in source */
     originalPosition: number;
-    /** Leading comments and annotations */
+    /** Leading comments */
     leadingContent: string;
     /** Method body content */
     bodyContent: string;
     /** Methods called by this method */
     calledMethods: string[];
+    /** Unqualified and self-qualified method invocations, in body order */
+    invocations: MethodInvocation[];
     /** Is this a getter method */
     isGetter: boolean;
     /** Is this a setter method */
     isSetter: boolean;
     /** Start position in source */
     startPos: number;
+    /** End position in source, including the comments the method owns after its closing brace */
+    endPos: number;
+    /** Modifier keywords, in source order */
+    modifiers: string[];
+    /** Annotations, in source order (e.g. '@Override') */
+    annotations: string[];
+    /** Return type, empty for constructors */
+    returnType: string;
+    /** Declared parameter types, in order */
+    parameterTypes: string[];
+    /** Kept at its position by a '// @sorter:pin' comment or a '// @sorter:off' region */
+    pinned: boolean;
+    /**
+     * Start of the text that moves with the method: its Javadoc and the comments directly above it.
+     * Leading content before it, such as free-standing comments and section headers, stays in place.
+     */
+    ownStart: number;
+}
+
+/**
+ * Kind of a non-method member. 'enumConstants' is the whole constant list of an enum,
+ * including its terminating semicolon.
+ */
+export type MemberKind = 'field' | 'initializer' | 'staticInitializer' | 'type' | 'enumConstants';
+
+/**
+ * Kind of a type declaration. 'enumConstant' is the class body of an enum constant.
+ */
+export type TypeKind = 'class' | 'interface' | 'enum' | 'record' | 'annotation' | 'enumConstant';
+
+/**
+ * Represents a parsed class member that is not a method:
+ * a field, an initializer block or a nested type
+ */
+export interface JavaMember {
+    /** Member kind */
+    kind: MemberKind;
+    /** Declared name, empty for initializers */
+    name: string;
+    /** Full text of the member declaration including annotations */
+    fullText: string;
+    /** Original position among the non-method members */
+    originalPosition: number;
+    /** Leading comments */
+    leadingContent: string;
+    /** Start position in source */
+    startPos: number;
     /** End position in source */
     endPos: number;
+    /** Start of the text that moves with the member, see JavaMethod.ownStart */
+    ownStart: number;
+    /** Access level */
+    accessLevel: AccessLevel;
+    /** Modifier keywords, in source order */
+    modifiers: string[];
+    /** Variable names declared by a field, in order; empty for other members */
+    variableNames: string[];
+    /** Identifiers used in the initializers of a field; empty for other members */
+    references: string[];
+    /** Kept at its position by a '// @sorter:pin' comment or a '// @sorter:off' region */
+    pinned: boolean;
+}
+
+/**
+ * A range of source offsets
+ */
+export interface TextRange {
+    /** Start offset (inclusive) */
+    start: number;
+    /** End offset (exclusive) */
+    end: number;
+}
+
+/**
+ * A member of the original source and the place its text was written to in the sorted source
+ */
+export interface MovedBlock {
+    /** Range of the member, including leading comments, in the original source */
+    from: TextRange;
+    /** Range of the member in the sorted source */
+    to: TextRange;
+}
+
+/**
+ * Result of sorting a source
+ */
+export interface SortResult {
+    /** Sorted source */
+    text: string;
+    /** Member blocks of every rewritten class, with inner blocks before the blocks containing them */
+    blocks: MovedBlock[];
+}
+
+/**
+ * A method that is not at the position the sorter would put it
+ */
+export interface MisplacedMethod {
+    /** The misplaced method */
+    method: JavaMethod;
+    /** Method it should directly follow, null when it should come first */
+    previous: JavaMethod | null;
+    /** Method it should directly precede, null when it should come last */
+    next: JavaMethod | null;
+    /** The method it should follow calls it */
+    calledByPrevious: boolean;
 }
 
 /**
- * Represents a parsed Java class
+ * Represents a parsed Java type: a class, interface, enum, record or annotation type
  */
 export interface JavaClass {
-    /** Class name */
+    /** Type name */
     name: string;
-    /** Content before methods (package, imports, class declaration, fields) */
+    /** Type kind */
+    kind: TypeKind;
+    /** Body content before the first member */
     preMethodsContent: string;
     /** Methods in the class */
     methods: JavaMethod[];
-    /** Content after methods (closing brace, trailing content) */
+    /** Fields, initializer blocks and nested types in the class */
+    members: JavaMember[];
+    /** Body content after the last member */
     postMethodsContent: string;
+    /** Nested, inner and local types declared in the type, and enum constant bodies */
+    types: JavaClass[];
+    /** Start position of the body in source (just after the opening brace) */
+    bodyStart: number;
+    /** End position of the body in source (the closing brace) */
+    bodyEnd: number;
 }
@@ -1,5 +1,13 @@
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import * as vscode from 'vscode';
+import { main } from '../cli';
+import { EclipsePreferencesImporter } from '../eclipsePreferences';
+import { GitIgnore } from '../gitIgnore';
+import { LineDiff } from '../lineDiff';
+import { findProjectOptions } from '../optionsFile';
 
 suite('Extension Test Suite', () => {
     vscode.window.showInformationMessage('Start all tests.');
@@ -14,7 +22,13 @@ suite('Extension Test Suite', () => {
 
         const commands = await vscode.commands.getCommands(true);
         assert.ok(commands.includes('tlcsdm.methodsorter.sortMethods'));
+        assert.ok(commands.includes('tlcsdm.methodsorter.sortSelectedMethods'));
+        assert.ok(commands.includes('tlcsdm.methodsorter.sortMethodsInFolder'));
+        assert.ok(commands.includes('tlcsdm.methodsorter.previewSort'));
+        assert.ok(commands.includes('tlcsdm.methodsorter.applyPreview'));
+        assert.ok(commands.includes('tlcsdm.methodsorter.discardPreview'));
         assert.ok(commands.includes('tlcsdm.methodsorter.shuffleMethodsRandomly'));
+        assert.ok(commands.includes('tlcsdm.methodsorter.importEclipsePreferences'));
     });
 
     test('Configuration should have default values', () => {
@@ -43,5 +57,267 @@ suite('Extension Test Suite', () => {
 
         const applyLexicalOrdering = config.get<boolean>('applyLexicalOrdering');
         assert.strictEqual(applyLexicalOrdering, true);
+
+        const memberPlacement = config.get<string>('memberPlacement');
+        assert.strictEqual(memberPlacement, 'anchored');
+
+        const memberLayout = config.get<string[]>('memberLayout');
+        assert.deepStrictEqual(memberLayout, []);
+
+        const maxNestingDepth = config.get<number>('maxNestingDepth');
+        assert.strictEqual(maxNestingDepth, -1);
+
+        const blankLinesBetweenMethods = config.get<number>('blankLinesBetweenMethods');
+        assert.strictEqual(blankLinesBetweenMethods, -1);
+
+        const orderRules = config.get<unknown[]>('orderRules');
+        assert.deepStrictEqual(orderRules, []);
+
+        const sectionHeaders = config.get<object>('sectionHeaders');
+        assert.deepStrictEqual(sectionHeaders, {});
+
+        const sortFields = config.get<boolean>('sortFields');
+        assert.strictEqual(sortFields, false);
+
+        const includeFiles = config.get<string>('includeFiles');
+        assert.strictEqual(includeFiles, '**/*.java');
+
+        const excludeFiles = config.get<string>('excludeFiles');
+        assert.strictEqual(excludeFiles, '');
+
+        const respectGitIgnore = config.get<boolean>('respectGitIgnore');
+        assert.strictEqual(respectGitIgnore, true);
+
+        const sortOnSave = config.get<string>('sortOnSave');
+        assert.strictEqual(sortOnSave, 'off');
+
+        const sortOnSaveTimeout = config.get<number>('sortOnSaveTimeout');
+        assert.strictEqual(sortOnSaveTimeout, 1000);
+
+        const sortOnSaveExclude = config.get<string>('sortOnSaveExclude');
+        assert.strictEqual(sortOnSaveExclude, '');
+
+        const diagnostics = config.get<boolean>('diagnostics');
+        assert.strictEqual(diagnostics, false);
+    });
+
+    test('Sort Methods source action should be offered for unsorted Java files', async () => {
+        const document = await vscode.workspace.openTextDocument({
+            language: 'java',
+            content: 'public class A {\n    private void b() { }\n\n    public void a() { b(); }\n}\n'
+        });
+
+        const actions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
+            'vscode.executeCodeActionProvider',
+            document.uri,
+            new vscode.Range(0, 0, 0, 0),
+            'source.sortMembers.methodSorter'
+        );
+        assert.ok(actions.some(action => action.kind?.value === 'source.sortMembers.methodSorter' && action.edit));
+    });
+
+    test('Sort on save should skip files matching sortOnSaveExclude relative to the workspace folder', async () => {
+        const root = vscode.workspace.workspaceFolders![0].uri.fsPath;
+        const folder = path.join(root, 'src');
+        const generated = path.join(folder, 'generated', 'Generated.java');
+        const handWritten = path.join(folder, 'HandWritten.java');
+        const unsorted = (name: string) => `public class ${name} {\n    private void b() { }\n\n    public void a() { b(); }\n}\n`;
+        const config = vscode.workspace.getConfiguration('tlcsdm.methodsorter');
+        fs.mkdirSync(path.dirname(generated), { recursive: true });
+        fs.writeFileSync(generated, unsorted('Generated'));
+        fs.writeFileSync(handWritten, unsorted('HandWritten'));
+
+        try {
+            await config.update('sortOnSave', 'on', vscode.ConfigurationTarget.Global);
+            await config.update('sortOnSaveExclude', 'src/generated/**', vscode.ConfigurationTarget.Global);
+            for (const file of [generated, handWritten]) {
+                const document = await vscode.workspace.openTextDocument(file);
+                const editor = await vscode.window.showTextDocument(document);
+                await editor.edit(builder => builder.insert(document.positionAt(document.getText().length), '\n'));
+                await document.save();
+            }
+
+            assert.strictEqual(fs.readFileSync(generated, 'utf8'), unsorted('Generated') + '\n');
+            assert.ok(fs.readFileSync(handWritten, 'utf8').indexOf('void a()') < fs.readFileSync(handWritten, 'utf8').indexOf('void b()'));
+        } finally {
+            await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+            await config.update('sortOnSave', undefined, vscode.ConfigurationTarget.Global);
+            await config.update('sortOnSaveExclude', undefined, vscode.ConfigurationTarget.Global);
+            fs.rmSync(folder, { recursive: true, force: true });
+        }
+    });
+
+    test('GitIgnore should match .gitignore patterns', () => {
+        const gitIgnore = new GitIgnore();
+        gitIgnore.add('', 'build/\n*.gen.java\n!Keep.gen.java\n/generated\n');
+        gitIgnore.add('module', 'target/\n');
+
+        assert.ok(gitIgnore.ignores('build/A.java'));
+        assert.ok(gitIgnore.ignores('src/build/A.java'));
+        assert.ok(gitIgnore.ignores('src/A.gen.java'));
+        assert.ok(!gitIgnore.ignores('src/Keep.gen.java'));
+        assert.ok(gitIgnore.ignores('generated/A.java'));
+        assert.ok(!gitIgnore.ignores('src/generated/A.java'));
+        assert.ok(gitIgnore.ignores('module/target/A.java'));
+        assert.ok(!gitIgnore.ignores('target/A.java'));
+    });
+
+    test('LineDiff should only replace changed lines', () => {
+        const oldText = 'a\nb\nc\nd\ne\n';
+        const newText = 'a\nd\nb\nc\ne\n';
+        const replacements = new LineDiff(oldText, newText).replacements();
+
+        let result = '';
+        let pos = 0;
+        for (const replacement of replacements) {
+            result += oldText.substring(pos, replacement.start) + replacement.text;
+            pos = replacement.end;
+        }
+        result += oldText.substring(pos);
+
+        assert.strictEqual(result, newText);
+        assert.strictEqual(replacements.length, 2);
+        assert.ok(replacements.every(replacement => replacement.text.length + replacement.end - replacement.start <= 2));
+    });
+
+    test('LineDiff should format a unified diff', () => {
+        const diff = new LineDiff('a\nb\nc\n', 'b\na\nc\n').unifiedDiff('a/A.java', 'b/A.java');
+
+        assert.strictEqual(diff, '--- a/A.java\n+++ b/A.java\n@@ -1,3 +1,3 @@\n-a\n b\n+a\n c\n');
+    });
+
+    test('Project options should come from the nearest .methodsorter.json', () => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), 'methodsorter-'));
+        try {
+            const nested = path.join(root, 'module', 'src');
+            fs.mkdirSync(nested, { recursive: true });
+            fs.writeFileSync(path.join(root, '.methodsorter.json'), '{ "separateByAccessLevel": false }');
+            fs.writeFileSync(path.join(root, 'module', '.methodsorter.json'), '{ "$schema": "x", "applyLexicalOrdering": false }');
+
+            assert.deepStrictEqual(findProjectOptions(path.join(nested, 'A.java')), { applyLexicalOrdering: false });
+            assert.deepStrictEqual(findProjectOptions(path.join(root, 'B.java')), { separateByAccessLevel: false });
+
+            fs.writeFileSync(path.join(root, '.methodsorter.json'), '{ "unknownOption": true }');
+            assert.throws(() => findProjectOptions(path.join(root, 'B.java')), /unknownOption/);
+
+            const invalid: [string, RegExp][] = [
+                ['{ "memberPlacement": "before" }', /"memberPlacement" .* must be one of "anchored", "beforeMethods", "afterMethods"/],
+                ['{ "sortingStrategy": "bfs" }', /"sortingStrategy"/],
+                ['{ "orderRules": [{ "kind": "ctor" }] }', /"orderRules\[0\]\.kind"/],
+                ['{ "orderRules": [{ "kind": "method", "sortBy": "alpha" }] }', /"orderRules\[0\]\.sortBy"/],
+                ['{ "orderRules": [{ "order": "lexical" }] }', /unknown property "order"/],
+                ['{ "sectionHeaders": { "getters": "// Getters" } }', /"sectionHeaders" .* unknown property "getters"/],
+                ['{ "sectionHeaders": { "constructors": 1 } }', /"sectionHeaders\.constructors" .* must be of type string/],
+                ['{ "memberLayout": ["types", "types"] }', /duplicates/],
+                ['{ "maxNestingDepth": -2 }', /at least -1/]
+            ];
+            for (const [content, message] of invalid) {
+                fs.writeFileSync(path.join(root, '.methodsorter.json'), content);
+                assert.throws(() => findProjectOptions(path.join(root, 'B.java')), message);
+            }
+        } finally {
+            fs.rmSync(root, { recursive: true, force: true });
+        }
+    });
+
+    test('Command line tool should check, write and diff Java files', () => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), 'methodsorter-'));
+        const log = console.log;
+        const error = console.error;
+        const write = process.stdout.write;
+        let output = '';
+        let errors: string[] = [];
+        const run = (...args: string[]) => {
+            output = '';
+            errors = [];
+            console.log = (...parts: unknown[]) => (output += `${parts.join(' ')}\n`);
+            console.error = (...parts: unknown[]) => errors.push(parts.join(' '));
+            process.stdout.write = ((chunk: string) => (output += chunk, true)) as typeof process.stdout.write;
+            try {
+                return main(args);
+            } finally {
+                console.log = log;
+                console.error = error;
+                process.stdout.write = write;
+            }
+        };
+
+        try {
+            const sorted = path.join(root, 'Sorted.java');
+            const unsorted = path.join(root, 'src', 'Unsorted.java');
+            const unsortedText = 'public class Unsorted {\n    private void b() { }\n\n    public void a() { b(); }\n}\n';
+            fs.mkdirSync(path.dirname(unsorted));
+            fs.writeFileSync(sorted, 'public class Sorted {\n    public void a() { }\n}\n');
+            fs.writeFileSync(unsorted, unsortedText);
+
+            assert.strictEqual(run('--check', sorted), 0);
+            assert.strictEqual(run('--check', root), 1);
+            assert.ok(output.includes('Unsorted.java'));
+
+            assert.strictEqual(run('--diff', unsorted), 1);
+            assert.ok(output.includes('+++ b/') && output.includes('+    private void b() { }'));
+            assert.strictEqual(fs.readFileSync(unsorted, 'utf8'), unsortedText);
+
+            assert.strictEqual(run('--write', root), 0);
+            assert.notStrictEqual(fs.readFileSync(unsorted, 'utf8'), unsortedText);
+            assert.strictEqual(run('--check', root), 0);
+
+            const config = path.join(root, 'bad.json');
+            fs.writeFileSync(config, '{ "unknownOption": true }');
+            assert.strictEqual(run('--config', config, root), 2);
+            fs.writeFileSync(config, '{ "memberPlacement": "before", "sortingStrategy": "bfs", "orderRules": [{ "kind": "ctor", "sortBy": "alpha" }] }');
+            assert.strictEqual(run('--config', config, root), 2);
+            assert.strictEqual(run('--config', path.join(root, 'missing.json'), root), 2);
+            assert.strictEqual(run(path.join(root, 'Missing.java')), 2);
+            assert.strictEqual(run('--check'), 2);
+
+            // An invalid project options file is reported once for all the files it applies to
+            fs.writeFileSync(path.join(root, 'src', 'Other.java'), 'public class Other { }\n');
+            fs.writeFileSync(path.join(root, '.methodsorter.json'), '{ "sortingStrategy": "bfs" }');
+            assert.strictEqual(run('--check', root), 2);
+            assert.strictEqual(errors.filter(message => message.includes('sortingStrategy')).length, 1);
+        } finally {
+            fs.rmSync(root, { recursive: true, force: true });
+        }
+    });
+
+    test('Eclipse preferences should map onto sorting options', () => {
+        const { options, warnings } = new EclipsePreferencesImporter().import([
+            { name: 'com.example.methodsorter.prefs', content: 'eclipse.preferences.version=1\nSORTING_STRATEGY=breadth-first\nclusterGetterSetter=true\nunknown=1\n' },
+            { name: 'org.eclipse.jdt.ui.prefs', content: 'outlinesortoption=C,SM,M,T,SF,SI,F,I\norg.eclipse.jdt.ui.enable.visibility.order=false\n' }
+        ]);
+
+        assert.deepStrictEqual(options, {
+            memberLayout: ['methods', 'types', 'staticFields', 'staticInitializers', 'instanceFields', 'instanceInitializers'],
+            memberPlacement: 'afterMethods',
+            separateByAccessLevel: false,
+            separateConstructors: true,
+            sortingStrategy: 'breadth-first',
+            clusterGetterSetter: true
+        });
+        assert.strictEqual(warnings.length, 1);
+        assert.ok(warnings[0].includes('unknown'));
+
+        const reordered = new EclipsePreferencesImporter().import([
+            { name: 'org.eclipse.jdt.ui.prefs', content: 'outlinesortoption=T,SF,SI,SM,F,I,C,M\n' }
+        ]);
+        assert.strictEqual(reordered.options.memberPlacement, 'anchored');
+        assert.strictEqual(reordered.options.memberLayout, undefined);
+
+        // Missing sort order keys have Eclipse's defaults, and files without any are not imported
+        const visibilityOnly = new EclipsePreferencesImporter().import([
+            { name: 'org.eclipse.jdt.ui.prefs', content: 'org.eclipse.jdt.ui.enable.visibility.order=false\n' }
+        ]);
+        assert.deepStrictEqual(visibilityOnly, reordered);
+
+        const unrelated = new EclipsePreferencesImporter().import([
+            { name: 'org.eclipse.jdt.ui.prefs', content: 'eclipse.preferences.version=1\norg.eclipse.jdt.ui.javadoc=false\n' }
+        ]);
+        assert.deepStrictEqual(unrelated, { options: {}, warnings: [] });
+        assert.deepStrictEqual(reordered.options.orderRules, [
+            { kind: 'method', modifiers: ['static'] },
+            { kind: 'constructor' },
+            { kind: 'method', modifiers: ['!static'] }
+        ]);
     });
 });
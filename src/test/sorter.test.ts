@@ -1,4 +1,4 @@
-import { JavaMethodSorter, JavaParser, SortingOptions } from '../sorter';
+import { AccessLevel, JavaMethodSorter, JavaParser, SortingOptions } from '../sorter';
 
 /**
  * Simple test runner for sorter logic
@@ -425,7 +425,7 @@ public class MyClass {
         failed++;
     }
     
-    // Test 13: Multiple blank lines in source are normalized to single blank line
+    // Test 13: Blank lines between reordered methods follow blankLinesBetweenMethods
     try {
         const source = `public class MyClass {
 
@@ -441,6 +441,19 @@ public class MyClass {
     public void methodB() {
         System.out.println("B");
     }
+}`;
+        const expected = `public class MyClass {
+
+
+    // Comment with 3 blank lines before it
+    public void methodB() {
+        System.out.println("B");
+    }
+
+    // Comment with 2 blank lines before it
+    private void methodA() {
+        System.out.println("A");
+    }
 }`;
         const options: SortingOptions = {
             sortingStrategy: 'depth-first',
@@ -450,18 +463,18 @@ public class MyClass {
             clusterGetterSetter: false,
             separateByAccessLevel: true,
             separateConstructors: false,
-            applyLexicalOrdering: false
+            applyLexicalOrdering: false,
+            blankLinesBetweenMethods: 1
         };
         const sorter = new JavaMethodSorter(options);
         const sorted = sorter.sort(source);
         
-        // Should not have more than 2 consecutive newlines (1 blank line)
-        const hasMultipleBlankLines = /\n{3,}/.test(sorted);
-        if (!hasMultipleBlankLines) {
-            console.log('✓ Test 13 passed: Multiple blank lines in source are normalized');
+        // The text in front of the first member is kept; reordered methods get one blank line
+        if (sorted === expected) {
+            console.log('✓ Test 13 passed: Blank lines between reordered methods follow blankLinesBetweenMethods');
             passed++;
         } else {
-            console.log('✗ Test 13 failed: Found multiple blank lines in output');
+            console.log('✗ Test 13 failed: Unexpected spacing');
             console.log('Sorted output:', sorted);
             failed++;
         }
@@ -470,6 +483,1515 @@ public class MyClass {
         failed++;
     }
     
+    // Test 14: JavaParser - Generics, same-line annotations and generic throws clauses
+    try {
+        const source = `
+public class MyClass<T extends Comparable<T>> extends Base<Map<String, List<T>>> {
+    @SuppressWarnings({"unchecked", "rawtypes"}) public <K> Map<K, List<Map<K, T>>> convert(Map<K, ?> input) throws Failure<K>, IOException {
+        return helper();
+    }
+
+    private Map<String, List<T>> helper() {
+        return null;
+    }
+}`;
+        const parser = new JavaParser(source);
+        const result = parser.parse();
+        const names = result?.methods.map(m => m.name);
+        if (result?.name === 'MyClass' && names?.join(',') === 'convert,helper' &&
+            result.methods[0].calledMethods.includes('helper')) {
+            console.log('✓ Test 14 passed: JavaParser handles generics and same-line annotations');
+            passed++;
+        } else {
+            console.log('✗ Test 14 failed: Expected [convert, helper], got', names);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 14 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 15: JavaParser - Braces inside text blocks, strings, chars and comments
+    try {
+        const source = `
+public class MyClass {
+    private static final String TEMPLATE = """
+        } { "not the end" }
+        """;
+
+    public void methodA() {
+        String s = "}"; char c = '{'; // }
+        /* { */
+    }
+
+    public void methodB() {
+        methodA();
+    }
+}`;
+        const parser = new JavaParser(source);
+        const result = parser.parse();
+        const names = result?.methods.map(m => m.name);
+        if (names?.join(',') === 'methodA,methodB' && result!.methods[0].fullText.trim().endsWith('/* { */\n    }')) {
+            console.log('✓ Test 15 passed: JavaParser ignores braces in literals and comments');
+            passed++;
+        } else {
+            console.log('✗ Test 15 failed: Expected [methodA, methodB], got', names);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 15 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 16: JavaParser - Array return types after the parameter list and lambda bodies in fields
+    try {
+        const source = `
+public class MyClass {
+    private final Runnable task = () -> { run(); };
+
+    int values()[] {
+        return new int[] { 1, 2 };
+    }
+
+    abstract void process(String[] names, int counts[]);
+}`;
+        const parser = new JavaParser(source);
+        const result = parser.parse();
+        const names = result?.methods.map(m => m.name);
+        const process = result?.methods[1];
+        if (names?.join(',') === 'values,process' &&
+            process?.parameterTypes.join(',') === 'String[],int[]' && process.bodyContent === '') {
+            console.log('✓ Test 16 passed: JavaParser handles array return types and lambdas in fields');
+            passed++;
+        } else {
+            console.log('✗ Test 16 failed: Expected [values, process], got', names);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 16 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 17: JavaParser - Unicode escapes are translated before tokenizing
+    try {
+        const source = `
+public class MyClass {
+    public void methodA() \\u007b
+        String s = "\\\\u007d";
+    }
+
+    public void methodB() {
+    }
+}`;
+        const parser = new JavaParser(source);
+        const result = parser.parse();
+        const names = result?.methods.map(m => m.name);
+        if (names?.join(',') === 'methodA,methodB') {
+            console.log('✓ Test 17 passed: JavaParser translates unicode escapes');
+            passed++;
+        } else {
+            console.log('✗ Test 17 failed: Expected [methodA, methodB], got', names);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 17 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 18: JavaMethodSorter - Fields and initializers between methods are kept in place
+    try {
+        const source = `
+public class MyClass {
+    private void privateMethod() {
+    }
+
+    private int counter;
+    static {
+        System.out.println("Static block");
+    }
+
+    public void publicMethod() {
+    }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: false,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: true,
+            separateConstructors: false,
+            applyLexicalOrdering: false
+        };
+        const sorter = new JavaMethodSorter(options);
+        const sorted = sorter.sort(source);
+        
+        const publicIdx = sorted.indexOf('publicMethod');
+        const fieldIdx = sorted.indexOf('private int counter;\n    static {');
+        const privateIdx = sorted.indexOf('privateMethod');
+        if (publicIdx !== -1 && publicIdx < fieldIdx && fieldIdx < privateIdx) {
+            console.log('✓ Test 18 passed: Members between methods are anchored in place');
+            passed++;
+        } else {
+            console.log('✗ Test 18 failed: Members between methods not preserved in place');
+            console.log('Sorted output:', sorted);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 18 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 19: JavaMethodSorter - Members can be moved before all methods
+    try {
+        const source = `
+public class MyClass {
+    public void methodA() {
+    }
+
+    private int counter;
+
+    class Inner {
+    }
+
+    public void methodB() {
+    }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: false,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: false,
+            separateConstructors: false,
+            applyLexicalOrdering: false,
+            memberPlacement: 'beforeMethods'
+        };
+        const sorter = new JavaMethodSorter(options);
+        const sorted = sorter.sort(source);
+        
+        const fieldIdx = sorted.indexOf('private int counter;');
+        const innerIdx = sorted.indexOf('class Inner');
+        const methodAIdx = sorted.indexOf('methodA');
+        if (fieldIdx !== -1 && fieldIdx < innerIdx && innerIdx < methodAIdx && sorted.includes('methodB')) {
+            console.log('✓ Test 19 passed: Members moved before methods');
+            passed++;
+        } else {
+            console.log('✗ Test 19 failed: Members not moved before methods');
+            console.log('Sorted output:', sorted);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 19 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 20: JavaMethodSorter - Nested, local and secondary top-level classes are sorted
+    try {
+        const source = `
+public class Outer {
+    public void outer() {
+        class Local {
+            private void localB() { }
+            public void localA() { }
+        }
+    }
+
+    static class Nested {
+        private void nestedB() { }
+        public void nestedA() { }
+    }
+}
+
+class Second {
+    private void secondB() { }
+    public void secondA() { }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: false,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: true,
+            separateConstructors: false,
+            applyLexicalOrdering: false
+        };
+        const sorter = new JavaMethodSorter(options);
+        const sorted = sorter.sort(source);
+        
+        const inOrder = (a: string, b: string) => sorted.indexOf(a) !== -1 && sorted.indexOf(a) < sorted.indexOf(b);
+        const nestedInside = sorted.indexOf('nestedA') > sorted.indexOf('static class Nested') &&
+            sorted.indexOf('nestedB') < sorted.indexOf('class Second');
+        if (inOrder('localA', 'localB') && inOrder('nestedA', 'nestedB') && inOrder('secondA', 'secondB') && nestedInside) {
+            console.log('✓ Test 20 passed: Nested, local and secondary classes are sorted');
+            passed++;
+        } else {
+            console.log('✗ Test 20 failed: Not every class was sorted');
+            console.log('Sorted output:', sorted);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 20 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 21: JavaMethodSorter - maxNestingDepth limits sorting to outer classes
+    try {
+        const source = `
+public class Outer {
+    private void outerB() { }
+    public void outerA() { }
+
+    static class Nested {
+        private void nestedB() { }
+        public void nestedA() { }
+    }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: false,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: true,
+            separateConstructors: false,
+            applyLexicalOrdering: false,
+            maxNestingDepth: 0
+        };
+        const sorter = new JavaMethodSorter(options);
+        const sorted = sorter.sort(source);
+        
+        const nestedBody = '        private void nestedB() { }\n        public void nestedA() { }';
+        if (sorted.indexOf('outerA') < sorted.indexOf('outerB') && sorted.includes(nestedBody)) {
+            console.log('✓ Test 21 passed: maxNestingDepth leaves deeper classes untouched');
+            passed++;
+        } else {
+            console.log('✗ Test 21 failed: maxNestingDepth not respected');
+            console.log('Sorted output:', sorted);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 21 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 22: JavaMethodSorter - Enum constants stay first, even when members move after methods
+    try {
+        const source = `
+public enum Operation {
+    PLUS {
+        private int helper() { return 0; }
+        public int apply() { return helper(); }
+    },
+    MINUS;
+
+    private void log() {
+    }
+
+    Operation() {
+    }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: false,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: true,
+            separateConstructors: true,
+            applyLexicalOrdering: false,
+            memberPlacement: 'afterMethods'
+        };
+        const sorter = new JavaMethodSorter(options);
+        const sorted = sorter.sort(source);
+        const parsed = new JavaParser(source).parse();
+        
+        const constantsIdx = sorted.indexOf('PLUS {');
+        const constructorIdx = sorted.indexOf('Operation()');
+        const logIdx = sorted.indexOf('void log()');
+        const bodySorted = sorted.indexOf('apply()') < sorted.indexOf('int helper()');
+        if (parsed?.kind === 'enum' && constantsIdx !== -1 && constantsIdx < constructorIdx && constructorIdx < logIdx && bodySorted) {
+            console.log('✓ Test 22 passed: Enum constants stay first and constant bodies are sorted');
+            passed++;
+        } else {
+            console.log('✗ Test 22 failed: Enum not sorted correctly');
+            console.log('Sorted output:', sorted);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 22 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 23: JavaParser - Records, interfaces and annotation types
+    try {
+        const source = `
+public record Point(int x, int y) {
+    static Point origin() { return new Point(0, 0); }
+
+    public Point {
+        if (x < 0) { throw new IllegalArgumentException(); }
+    }
+}
+
+interface Shape {
+    private double scale() { return 1; }
+    default double area() { return scale(); }
+    double perimeter();
+}
+
+@interface Marker {
+    String[] tags() default { "a", "b" };
+}`;
+        const types = new JavaParser(source).parseAll();
+        const [record, shape, marker] = types;
+        const compact = record?.methods.find(m => m.name === 'Point');
+        const perimeter = shape?.methods.find(m => m.name === 'perimeter');
+        if (types.map(t => t.kind).join(',') === 'record,interface,annotation' &&
+            compact?.isConstructor && compact.signature === 'Point(int x, int y)' &&
+            perimeter?.accessLevel === AccessLevel.PUBLIC && marker.methods[0]?.name === 'tags') {
+            console.log('✓ Test 23 passed: JavaParser handles records, interfaces and annotation types');
+            passed++;
+        } else {
+            console.log('✗ Test 23 failed: Got', types.map(t => `${t.kind} ${t.name}: ${t.methods.map(m => m.name)}`));
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 23 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 24: JavaMethodSorter - Invocation ordering resolves overloads by arity and literal types
+    try {
+        const source = `
+public class MyClass {
+    public void log(String message) { }
+    public void log(int level) { }
+    public void log(int level, String message) { }
+    public void run() { log(2, "x"); log(3); }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: true,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: false,
+            separateConstructors: false,
+            applyLexicalOrdering: false
+        };
+        const sorter = new JavaMethodSorter(options);
+        const sorted = sorter.sort(source);
+        
+        const order = ['log(String message)', 'run()', 'log(int level, String message)', 'log(int level)']
+            .map(signature => sorted.indexOf(signature));
+        if (order.every((idx, i) => idx !== -1 && (i === 0 || order[i - 1] < idx))) {
+            console.log('✓ Test 24 passed: Overloads are resolved by arity and literal types');
+            passed++;
+        } else {
+            console.log('✗ Test 24 failed: Overloads not resolved');
+            console.log('Sorted output:', sorted);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 24 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 25: JavaMethodSorter - Depth-first and breadth-first golden outputs differ
+    try {
+        const source = `public class Report {
+    private void row() {
+    }
+
+    private void body() {
+        row();
+    }
+
+    public void generate() {
+        header();
+        body();
+    }
+
+    private void title() {
+    }
+
+    private void header() {
+        title();
+    }
+}
+`;
+        const expectedDepthFirst = `public class Report {
+    public void generate() {
+        header();
+        body();
+    }
+
+    private void header() {
+        title();
+    }
+
+    private void title() {
+    }
+
+    private void body() {
+        row();
+    }
+
+    private void row() {
+    }
+}
+`;
+        const expectedBreadthFirst = `public class Report {
+    public void generate() {
+        header();
+        body();
+    }
+
+    private void header() {
+        title();
+    }
+
+    private void body() {
+        row();
+    }
+
+    private void title() {
+    }
+
+    private void row() {
+    }
+}
+`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: true,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: false,
+            separateConstructors: true,
+            applyLexicalOrdering: false
+        };
+        const depthFirst = new JavaMethodSorter(options).sort(source);
+        const breadthFirst = new JavaMethodSorter({ ...options, sortingStrategy: 'breadth-first' }).sort(source);
+        
+        if (depthFirst === expectedDepthFirst && breadthFirst === expectedBreadthFirst) {
+            console.log('✓ Test 25 passed: Depth-first and breadth-first produce their golden orders');
+            passed++;
+        } else {
+            console.log('✗ Test 25 failed: Traversal orders do not match golden outputs');
+            console.log('Depth-first output:', depthFirst);
+            console.log('Breadth-first output:', breadthFirst);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 25 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 26: JavaMethodSorter - Working list heuristics pick lifecycle hooks and tests as entry points
+    try {
+        const source = `
+public class MyTest {
+    private void helper() { }
+
+    @AfterEach
+    public void tearDown() { }
+
+    @Test
+    public void testB() { helper(); }
+
+    @org.junit.jupiter.api.Test
+    public void testA() { }
+
+    @BeforeEach
+    public void setUp() { }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: true,
+            respectBeforeAfterRelation: true,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: false,
+            separateConstructors: true,
+            applyLexicalOrdering: false
+        };
+        const withHeuristics = new JavaMethodSorter(options).sort(source);
+        const withoutHeuristics = new JavaMethodSorter({ ...options, applyWorkingListHeuristics: false }).sort(source);
+        const orderOf = (sorted: string) => ['setUp', 'testB', 'helper', 'testA', 'tearDown']
+            .sort((a, b) => sorted.indexOf(`void ${a}(`) - sorted.indexOf(`void ${b}(`))
+            .join(',');
+        
+        if (orderOf(withHeuristics) === 'setUp,testB,helper,testA,tearDown' &&
+            orderOf(withoutHeuristics) === 'tearDown,testB,helper,testA,setUp') {
+            console.log('✓ Test 26 passed: Working list heuristics choose entry points');
+            passed++;
+        } else {
+            console.log('✗ Test 26 failed: Got', orderOf(withHeuristics), 'and', orderOf(withoutHeuristics));
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 26 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 27: JavaMethodSorter - Topological order handles cycles, is deterministic and idempotent
+    try {
+        const methods = [
+            '    public void b() { a(); c(); }',
+            '    public void z() { }',
+            '    public void run() { a(); }',
+            '    public void c() { }',
+            '    public void a() { b(); }',
+            '    public void y() { }'
+        ];
+        const classOf = (order: string[]) => `public class Cycle {\n\n${order.join('\n\n')}\n}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: true,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: true,
+            separateConstructors: true,
+            applyLexicalOrdering: true
+        };
+        const sorter = new JavaMethodSorter(options);
+        const sorted = sorter.sort(classOf(methods));
+        const reordered = sorter.sort(classOf([...methods].reverse()));
+        const rotated = sorter.sort(classOf([...methods.slice(3), ...methods.slice(0, 3)]));
+        // run, then the a/b cycle entered through a, then its callee c, then the uncalled methods
+        const expected = classOf([2, 4, 0, 3, 5, 1].map(i => methods[i]));
+        
+        if (sorted === expected && reordered === sorted && rotated === sorted && sorter.sort(sorted) === sorted) {
+            console.log('✓ Test 27 passed: Topological order handles cycles, is deterministic and idempotent');
+            passed++;
+        } else {
+            console.log('✗ Test 27 failed: Got', sorted, reordered, rotated);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 27 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 28: JavaMethodSorter - Order rules put methods into user-defined categories
+    try {
+        const source = `
+public class OrderTest {
+    private void helper() { }
+
+    @AfterEach
+    void tearDown() { }
+
+    @Test
+    void testB() { helper(); }
+
+    public static Builder builder() { return new Builder(); }
+
+    @Test
+    void testA() { }
+
+    @BeforeEach
+    void setUp() { }
+
+    public OrderTest() { }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: true,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: true,
+            separateConstructors: true,
+            applyLexicalOrdering: true,
+            orderRules: [
+                { kind: 'method', modifiers: ['static'], returnType: 'Builder' },
+                { annotations: ['BeforeEach', 'AfterEach'], sortBy: 'original' },
+                { annotations: ['@org.junit.jupiter.api.Test'], sortBy: 'lexical' }
+            ]
+        };
+        const sorted = new JavaMethodSorter(options).sort(source);
+        const order = ['builder', 'tearDown', 'setUp', 'testA', 'testB', 'OrderTest', 'helper']
+            .sort((a, b) => sorted.indexOf(`${a}() {`) - sorted.indexOf(`${b}() {`))
+            .join(',');
+        let invalidPatternRejected = false;
+        try {
+            new JavaMethodSorter({ ...options, orderRules: [{ name: 'get(' }] });
+        } catch {
+            invalidPatternRejected = true;
+        }
+        
+        if (order === 'builder,tearDown,setUp,testA,testB,OrderTest,helper' && invalidPatternRejected) {
+            console.log('✓ Test 28 passed: Order rules put methods into user-defined categories');
+            passed++;
+        } else {
+            console.log('✗ Test 28 failed: Got', order, invalidPatternRejected);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 28 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 29: JavaMethodSorter - Sorting selections leaves everything outside them unchanged
+    try {
+        const source = `public class Legacy {
+    private void zeta() { }
+
+
+    public void delta() { }
+    // gamma's comment moves with it
+    public void gamma() { }
+
+    public void beta() { }
+  public void alpha() { }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: false,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: true,
+            separateConstructors: true,
+            applyLexicalOrdering: true
+        };
+        const start = source.indexOf('    public void delta');
+        const end = source.indexOf('  public void alpha');
+        const sorted = new JavaMethodSorter(options).sortSelections(source, [{ start, end }]);
+        // A selection from the first method's name to the last method's brace, without the whitespace around them
+        const trimmedStart = source.indexOf('public void delta');
+        const trimmedEnd = source.indexOf('beta() { }') + 'beta() { }'.length;
+        const trimmed = new JavaMethodSorter(options).sortSelections(source, [{ start: trimmedStart, end: trimmedEnd }]);
+        const expected = `public class Legacy {
+    private void zeta() { }
+
+
+    public void beta() { }
+    public void delta() { }
+
+    // gamma's comment moves with it
+    public void gamma() { }
+  public void alpha() { }
+}`;
+        
+        if (sorted === expected && trimmed === expected) {
+            console.log('✓ Test 29 passed: Sorting selections leaves everything outside them unchanged');
+            passed++;
+        } else {
+            console.log('✗ Test 29 failed: Got', sorted, trimmed);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 29 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 30: JavaMethodSorter - Moved blocks map each member to its place in the sorted source
+    try {
+        const source = `public class Blocks {
+    private int count;
+
+    private void helper() { }
+
+    // Entry point
+    public void run() { helper(); }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: true,
+            respectBeforeAfterRelation: true,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: true,
+            separateConstructors: true,
+            applyLexicalOrdering: true
+        };
+        const result = new JavaMethodSorter(options).sortWithBlocks(source);
+        const moved = result.blocks.map(block => source.substring(block.from.start, block.from.end));
+        const matches = result.blocks.every(block =>
+            source.substring(block.from.start, block.from.end) === result.text.substring(block.to.start, block.to.end));
+        const run = result.blocks.find(block => source.substring(block.from.start, block.from.end).includes('run()'));
+        
+        if (result.text === new JavaMethodSorter(options).sort(source) && moved.length === 3 && matches &&
+            run !== undefined && run.to.start < result.text.indexOf('helper() { }')) {
+            console.log('✓ Test 30 passed: Moved blocks map each member to its place in the sorted source');
+            passed++;
+        } else {
+            console.log('✗ Test 30 failed: Got', result);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 30 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 31: JavaMethodSorter - Only the fewest methods that must move are reported as misplaced
+    try {
+        const source = `
+public class Processor {
+    private void helper() { }
+
+    public void process() { helper(); }
+
+    public void alpha() { }
+
+    private void zeta() { }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: true,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: false,
+            separateConstructors: true,
+            applyLexicalOrdering: false
+        };
+        const sorter = new JavaMethodSorter(options);
+        const misplaced = sorter.findMisplacedMethods(source);
+        const sortedMisplaced = sorter.findMisplacedMethods(sorter.sort(source));
+        
+        if (misplaced.length === 1 && misplaced[0].method.name === 'helper' &&
+            misplaced[0].previous?.name === 'process' && misplaced[0].calledByPrevious &&
+            misplaced[0].next?.name === 'alpha' && sortedMisplaced.length === 0) {
+            console.log('✓ Test 31 passed: Only the fewest methods that must move are reported as misplaced');
+            passed++;
+        } else {
+            console.log('✗ Test 31 failed: Got', misplaced.map(m => [m.method.name, m.previous?.name, m.calledByPrevious]));
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 31 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 32: JavaMethodSorter - Pinned methods and @sorter:off regions stay in place
+    try {
+        const source = `
+public class Markers {
+    public void delta() { }
+
+    // @sorter:pin
+    public void charlie() { }
+
+    public void bravo() { }
+
+    // @sorter:off
+    public void zulu() { }
+
+    public void yankee() { }
+
+    // @sorter:on
+    public void xray() { }
+
+    public void alpha() { }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: false,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: false,
+            separateConstructors: true,
+            applyLexicalOrdering: true
+        };
+        const sorter = new JavaMethodSorter(options);
+        const sorted = sorter.sort(source);
+        const order = ['alpha', 'charlie', 'bravo', 'zulu', 'yankee', 'delta', 'xray']
+            .map(name => sorted.indexOf(`${name}() {`));
+        const inOrder = order.every((pos, i) => pos !== -1 && (i === 0 || pos > order[i - 1]));
+        const markersKept = sorted.indexOf('// @sorter:pin') < sorted.indexOf('charlie() {') &&
+            sorted.indexOf('// @sorter:off') < sorted.indexOf('zulu() {') &&
+            sorted.indexOf('yankee() {') < sorted.indexOf('// @sorter:on') && sorted.indexOf('// @sorter:on') < sorted.indexOf('delta() {');
+        
+        if (inOrder && markersKept && sorter.sort(sorted) === sorted && sorter.findMisplacedMethods(sorted).length === 0) {
+            console.log('✓ Test 32 passed: Pinned methods and @sorter:off regions stay in place');
+            passed++;
+        } else {
+            console.log('✗ Test 32 failed: Got', sorted);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 32 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 33: JavaMethodSorter - Line endings, prevailing spacing and section headers are kept
+    try {
+        const toCrlf = (text: string) => text.replace(/\n/g, '\r\n');
+        const source = toCrlf(`public class Sections {
+    public void b() { }
+
+
+    public void a() { }
+
+
+    // ---- Helpers ----
+
+    /** Docs of d */
+    public void d() { }
+
+
+    public void c() { }
+}`);
+        const expected = toCrlf(`public class Sections {
+    public void a() { }
+
+
+    public void b() { }
+
+
+    // ---- Helpers ----
+
+    public void c() { }
+
+
+    /** Docs of d */
+    public void d() { }
+}`);
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: false,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: false,
+            separateConstructors: true,
+            applyLexicalOrdering: true
+        };
+        const sorter = new JavaMethodSorter(options);
+        const sorted = sorter.sort(source);
+        
+        if (sorted === expected && sorter.sort(sorted) === sorted) {
+            console.log('✓ Test 33 passed: Line endings, prevailing spacing and section headers are kept');
+            passed++;
+        } else {
+            console.log('✗ Test 33 failed: Got', JSON.stringify(sorted));
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 33 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 34: JavaMethodSorter - Section headers are written above each group and replaced on the next sort
+    try {
+        const source = `public class Service {
+    // ----- Private helpers -----
+    private void helper() { }
+
+    public void run() { helper(); }
+
+    public int getCount() { return 0; }
+
+    public Service() { }
+}`;
+        const expected = `public class Service {
+    // Accessors
+    public int getCount() { return 0; }
+
+    // ===== Constructors =====
+    public Service() { }
+
+    public void run() { helper(); }
+
+    // ----- Private helpers -----
+    private void helper() { }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: true,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: true,
+            separateConstructors: true,
+            applyLexicalOrdering: true,
+            orderRules: [{ kind: 'getter', header: 'Accessors' }],
+            sectionHeaders: {
+                constructors: '// ===== Constructors =====',
+                privateMethods: '// ----- Private helpers -----'
+            }
+        };
+        const sorter = new JavaMethodSorter(options);
+        const sorted = sorter.sort(source);
+        
+        if (sorted === expected && sorter.sort(sorted) === sorted) {
+            console.log('✓ Test 34 passed: Section headers are written above each group and replaced on the next sort');
+            passed++;
+        } else {
+            console.log('✗ Test 34 failed: Got', sorted);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 34 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 35: JavaParser - Comments and annotations stay with the member that owns them
+    try {
+        const source = `public class Owner {
+    private int count;
+    // end of field block
+
+    // private int removed;
+
+    @SuppressWarnings({
+        "a",
+        "b"})
+    public void zeta() { } // NOSONAR
+
+    /** Documents alpha */
+
+    public void alpha() { }
+}`;
+        const expected = `public class Owner {
+    private int count;
+    // end of field block
+
+    // private int removed;
+
+    /** Documents alpha */
+
+    public void alpha() { }
+
+    @SuppressWarnings({
+        "a",
+        "b"})
+    public void zeta() { } // NOSONAR
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: false,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: false,
+            separateConstructors: true,
+            applyLexicalOrdering: true
+        };
+        const javaClass = new JavaParser(source).parse()!;
+        const zeta = javaClass.methods.find(m => m.name === 'zeta')!;
+        const field = javaClass.members[0];
+        const sorter = new JavaMethodSorter(options);
+        const sorted = sorter.sort(source);
+        
+        const ownership = zeta.fullText.endsWith('// NOSONAR') && zeta.annotations.length === 1 &&
+            field.fullText.endsWith('// end of field block') && zeta.ownStart === zeta.startPos;
+        if (ownership && sorted === expected && sorter.sort(sorted) === sorted) {
+            console.log('✓ Test 35 passed: Comments and annotations stay with the member that owns them');
+            passed++;
+        } else {
+            console.log('✗ Test 35 failed: Got', sorted);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 35 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 36: JavaMethodSorter - Fields are sorted by group and access level without breaking forward references
+    try {
+        const source = `public class Config {
+    private int size = DEFAULT_SIZE * 2;
+    public String name;
+    private static int counter;
+    public static final int DEFAULT_SIZE = 10;
+    private final int limit = size + 1,
+        max = limit * 2;
+    protected static final String PREFIX = "cfg";
+    private static final int BASE = 1;
+    public static final int DERIVED = BASE + 1;
+
+    static {
+        counter = 1;
+    }
+
+    public static int shared;
+    private static final int LATE = 3;
+
+    public void run() { }
+}`;
+        const expected = `public class Config {
+    public static final int DEFAULT_SIZE = 10;
+    protected static final String PREFIX = "cfg";
+    private static final int BASE = 1;
+    public static final int DERIVED = BASE + 1;
+    private static int counter;
+    public String name;
+    private int size = DEFAULT_SIZE * 2;
+    private final int limit = size + 1,
+        max = limit * 2;
+
+    static {
+        counter = 1;
+    }
+
+    private static final int LATE = 3;
+    public static int shared;
+
+    public void run() { }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: true,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: true,
+            separateConstructors: true,
+            applyLexicalOrdering: true,
+            sortFields: true
+        };
+        const sorter = new JavaMethodSorter(options);
+        const sorted = sorter.sort(source);
+        const unsorted = new JavaMethodSorter({ ...options, sortFields: false }).sort(source);
+        
+        if (sorted === expected && sorter.sort(sorted) === sorted && unsorted === source) {
+            console.log('✓ Test 36 passed: Fields are sorted by group and access level without breaking forward references');
+            passed++;
+        } else {
+            console.log('✗ Test 36 failed: Got', sorted);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 36 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 37: JavaMethodSorter - memberLayout places initializers and nested types, keeping initializer order
+    try {
+        const source = `public class Registry {
+    static class Entry { }
+
+    public void register() { }
+
+    static {
+        load("first");
+    }
+
+    private final List<Entry> entries = new ArrayList<>();
+
+    {
+        entries.clear();
+    }
+
+    private static final Map<String, Entry> CACHE = new HashMap<>();
+
+    static {
+        load("second");
+    }
+
+    interface Listener { }
+
+    public Registry() { }
+}`;
+        // The static field stays between the static initializers, which run in source order with its initializer
+        const expected = `public class Registry {
+    static {
+        load("first");
+    }
+
+    private static final Map<String, Entry> CACHE = new HashMap<>();
+
+    static {
+        load("second");
+    }
+
+    private final List<Entry> entries = new ArrayList<>();
+
+    {
+        entries.clear();
+    }
+
+    public Registry() { }
+
+    public void register() { }
+
+    static class Entry { }
+
+    interface Listener { }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: true,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: true,
+            separateConstructors: true,
+            applyLexicalOrdering: true,
+            memberPlacement: 'beforeMethods',
+            memberLayout: ['staticFields', 'staticInitializers']
+        };
+        const sorter = new JavaMethodSorter(options);
+        const sorted = sorter.sort(source);
+        const typesFirst = new JavaMethodSorter({ ...options, memberLayout: ['types', 'methods'] }).sort(source);
+        const initializers = typesFirst.match(/load\("\w+"\)/g)?.join(',');
+        
+        if (sorted === expected && sorter.sort(sorted) === sorted &&
+            typesFirst.indexOf('class Entry') < typesFirst.indexOf('interface Listener') &&
+            typesFirst.indexOf('interface Listener') < typesFirst.indexOf('public Registry()') &&
+            typesFirst.indexOf('void register') < typesFirst.indexOf('CACHE') &&
+            initializers === 'load("first"),load("second")') {
+            console.log('✓ Test 37 passed: memberLayout places initializers and nested types, keeping initializer order');
+            passed++;
+        } else {
+            console.log('✗ Test 37 failed: Got', sorted, typesFirst);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 37 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 38: JavaMethodSorter - Members sharing a line stay on one line
+    try {
+        const source = `public class Outer {
+    class In { void z() {} void a() {} }
+
+    public void run() {
+        class Local { void reset() { } private int count; void clear() { } }
+    }
+}`;
+        const expected = `public class Outer {
+    class In { void a() {} void z() {} }
+
+    public void run() {
+        class Local { void clear() { } private int count; void reset() { } }
+    }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: false,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: true,
+            separateConstructors: true,
+            applyLexicalOrdering: true
+        };
+        const sorter = new JavaMethodSorter(options);
+        const sorted = sorter.sort(source);
+        
+        if (sorted === expected && sorter.sort(sorted) === sorted) {
+            console.log('✓ Test 38 passed: Members sharing a line stay on one line');
+            passed++;
+        } else {
+            console.log('✗ Test 38 failed: Got', sorted);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 38 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 39: JavaMethodSorter - Section headers follow methods that clustering moves to another group
+    try {
+        const source = `public class Person {
+    private String name;
+
+    private void setName(String name) { this.name = name; }
+
+    private void helper() { }
+
+    public String getName() { return name; }
+
+    public void run() { helper(); }
+}`;
+        const expected = `public class Person {
+    private String name;
+
+    // Public
+    public String getName() { return name; }
+
+    // Private
+    private void setName(String name) { this.name = name; }
+
+    // Public
+    public void run() { helper(); }
+
+    // Private
+    private void helper() { }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: false,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: true,
+            separateByAccessLevel: true,
+            separateConstructors: true,
+            applyLexicalOrdering: true,
+            sectionHeaders: { publicMethods: 'Public', privateMethods: 'Private' }
+        };
+        const sorter = new JavaMethodSorter(options);
+        const sorted = sorter.sort(source);
+        
+        if (sorted === expected && sorter.sort(sorted) === sorted) {
+            console.log('✓ Test 39 passed: Section headers follow methods that clustering moves to another group');
+            passed++;
+        } else {
+            console.log('✗ Test 39 failed: Got', sorted);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 39 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 40: JavaMethodSorter - memberLayout never moves a field past an initializer block of its kind
+    try {
+        const source = `public class Counter {
+    public void run() { }
+
+    static int X;
+
+    static { X = 1; }
+
+    static int Y = X + 1;
+
+    int a = Y;
+
+    { a++; }
+
+    int b;
+
+    static class Inner { }
+}`;
+        const expected = `public class Counter {
+    static int X;
+
+    static { X = 1; }
+
+    static int Y = X + 1;
+
+    int a = Y;
+
+    { a++; }
+
+    int b;
+
+    public void run() { }
+
+    static class Inner { }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: true,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: true,
+            separateConstructors: true,
+            applyLexicalOrdering: true,
+            memberLayout: ['staticFields', 'staticInitializers', 'instanceFields', 'instanceInitializers', 'methods', 'types']
+        };
+        const sorter = new JavaMethodSorter(options);
+        const sorted = sorter.sort(source);
+        const blocksFirst = new JavaMethodSorter({ ...options, memberLayout: ['staticInitializers', 'instanceInitializers'] }).sort(source);
+        const initializationOrder = ['static int X', 'X = 1', 'Y = X + 1', 'a = Y', 'a++', 'int b;']
+            .map(text => blocksFirst.indexOf(text));
+        
+        if (sorted === expected && sorter.sort(sorted) === sorted &&
+            initializationOrder.every((pos, i) => pos !== -1 && (i === 0 || pos > initializationOrder[i - 1]))) {
+            console.log('✓ Test 40 passed: memberLayout never moves a field past an initializer block of its kind');
+            passed++;
+        } else {
+            console.log('✗ Test 40 failed: Got', sorted, blocksFirst);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 40 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 41: JavaMethodSorter - A record header without its closing parenthesis does not break sorting
+    try {
+        const source = `public record R<A>(A a, int b implements I {
+    public R {
+    }
+
+    void z() { }
+
+    void a() { }
+}`;
+        const expected = `public record R<A>(A a, int b implements I {
+    public R {
+    }
+
+    void a() { }
+
+    void z() { }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: false,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: true,
+            separateConstructors: true,
+            applyLexicalOrdering: true
+        };
+        const sorter = new JavaMethodSorter(options);
+        const sorted = sorter.sort(source);
+        
+        if (sorted === expected && sorter.findMisplacedMethods(sorted).length === 0) {
+            console.log('✓ Test 41 passed: A record header without its closing parenthesis does not break sorting');
+            passed++;
+        } else {
+            console.log('✗ Test 41 failed: Got', sorted);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 41 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 42: JavaParser - Method name ranges point at the declared name
+    try {
+        const source = `
+public record Range(int from, int to) {
+    /** Like {@link #size()}, but checked. See size() too. */
+    @Deprecated
+    public int checkedSize() { return size(); }
+
+    public int size() { return to - from; }
+
+    /** Creates it, see {@link #Range(int, int)} */
+    public Range {
+    }
+
+    static void $helper() { }
+
+    void \\u0061lias() { }
+}`;
+        const [record] = new JavaParser(source).parseAll();
+        const names = record.methods.map(method => source.substring(method.nameRange.start, method.nameRange.end));
+        const checked = record.methods.find(method => method.name === 'checkedSize')!;
+        
+        if (names.join(',') === 'checkedSize,size,Range,$helper,\\u0061lias' &&
+            checked.nameRange.start > source.indexOf('@Deprecated')) {
+            console.log('✓ Test 42 passed: Method name ranges point at the declared name');
+            passed++;
+        } else {
+            console.log('✗ Test 42 failed: Got', names);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 42 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 43: JavaMethodSorter - Moved members keep a blank line when no spacing prevails
+    try {
+        const source = `public class Tie {
+    private void d() { }
+    private void c() { }
+
+    public void run() { }
+
+    static {
+        init();
+    }
+
+    public Tie() { }
+}`;
+        const expected = `public class Tie {
+    public Tie() { }
+
+    public void run() { }
+
+    private void c() { }
+
+    static {
+        init();
+    }
+
+    private void d() { }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: false,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: true,
+            separateConstructors: true,
+            applyLexicalOrdering: true
+        };
+        const sorter = new JavaMethodSorter(options);
+        const sorted = sorter.sort(source);
+        
+        if (sorted === expected && sorter.sort(sorted) === sorted) {
+            console.log('✓ Test 43 passed: Moved members keep a blank line when no spacing prevails');
+            passed++;
+        } else {
+            console.log('✗ Test 43 failed: Got', sorted);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 43 failed with error:', e);
+        failed++;
+    }
+    
+    // Test 44: JavaMethodSorter - Headers of an earlier template with the same decoration are replaced
+    try {
+        const source = `public class Service {
+    private void helper() { }
+
+    public void run() { helper(); }
+
+    protected void hook() { }
+}`;
+        const options: SortingOptions = {
+            sortingStrategy: 'depth-first',
+            applyWorkingListHeuristics: false,
+            respectBeforeAfterRelation: false,
+            clusterOverloadedMethods: false,
+            clusterGetterSetter: false,
+            separateByAccessLevel: true,
+            separateConstructors: true,
+            applyLexicalOrdering: true,
+            sectionHeaders: { publicMethods: '// ===== Public API =====', privateMethods: '// ===== Helpers =====' }
+        };
+        const renamed: SortingOptions = {
+            ...options,
+            sectionHeaders: { publicMethods: '// ===== Public =====', privateMethods: '// ===== Private =====' }
+        };
+        const first = new JavaMethodSorter(options).sort(source);
+        const resorted = new JavaMethodSorter(renamed).sort(first);
+        const expected = `public class Service {
+    // ===== Public =====
+    public void run() { helper(); }
+
+    protected void hook() { }
+
+    // ===== Private =====
+    private void helper() { }
+}`;
+        
+        if (first.includes('// ===== Helpers =====') && resorted === expected) {
+            console.log('✓ Test 44 passed: Headers of an earlier template with the same decoration are replaced');
+            passed++;
+        } else {
+            console.log('✗ Test 44 failed: Got', first, resorted);
+            failed++;
+        }
+    } catch (e) {
+        console.log('✗ Test 44 failed with error:', e);
+        failed++;
+    }
+    
     console.log(`\nResults: ${passed} passed, ${failed} failed`);
 }
 
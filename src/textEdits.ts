@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { LineDiff } from './lineDiff';
+import { MovedBlock } from './sorter/types';
+
+/**
+ * Create the minimal edits that turn a text into its new version.
+ * Positions are computed from the text itself, so the edits also apply to files that are not open.
+ */
+export function createTextEdits(text: string, newText: string): vscode.TextEdit[] {
+    const lineStarts = [0];
+    const lineBreak = /\r\n|\r|\n/g;
+    for (let match = lineBreak.exec(text); match; match = lineBreak.exec(text)) {
+        lineStarts.push(match.index + match[0].length);
+    }
+
+    const positionAt = (offset: number): vscode.Position => {
+        // Binary search for the last line starting at or before the offset
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (lineStarts[middle] <= offset) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+        return new vscode.Position(low, offset - lineStarts[low]);
+    };
+
+    return new LineDiff(text, newText).replacements().map(replacement =>
+        vscode.TextEdit.replace(new vscode.Range(positionAt(replacement.start), positionAt(replacement.end)), replacement.text)
+    );
+}
+
+/**
+ * Map an offset of the original text to the sorted text, following the innermost member block
+ * that contains it. Returns null when the offset is not inside a member block.
+ */
+export function followBlocks(offset: number, blocks: MovedBlock[]): number | null {
+    let innermost: MovedBlock | null = null;
+    for (const block of blocks) {
+        const contains = block.from.start <= offset && offset <= block.from.end;
+        if (contains && (!innermost || block.from.end - block.from.start < innermost.from.end - innermost.from.start)) {
+            innermost = block;
+        }
+    }
+    if (!innermost) {
+        return null;
+    }
+    return Math.min(innermost.to.start + offset - innermost.from.start, innermost.to.end);
+}